@@ -0,0 +1,107 @@
+import { parseTimestamp, TruckAccess } from './planetscale.js';
+import { getPipeTrucks, PipeDefinition } from './pipeRegistry.js';
+
+export class AccessWindowError extends Error {
+  constructor(message: string, public statusCode: number = 403, public code: string = 'OUTSIDE_ACCESS_WINDOW') {
+    super(message);
+    this.name = 'AccessWindowError';
+  }
+}
+
+/**
+ * The trucks and time range a history query is allowed to cover
+ */
+export interface AccessWindow {
+  trucks: string[];
+  start: Date;
+  end?: Date; // Open-ended when none of the trucks' access expires
+}
+
+/**
+ * Format a Date the way Tinybird DateTime parameters expect it
+ */
+export function formatTinybirdDateTime(date: Date): string {
+  return date.toISOString().substring(0, 19).replace('T', ' ');
+}
+
+/**
+ * Every value of a time parameter in the query string and JSON body
+ */
+function parseTimeParam(searchParams: URLSearchParams, body: unknown, param: string): Date[] {
+  const values: unknown[] = [searchParams.get(param)];
+  if (body && typeof body === 'object' && !Array.isArray(body)) {
+    values.push((body as Record<string, unknown>)[param]);
+  }
+
+  return values
+    .filter(value => value !== null && value !== undefined && value !== '')
+    .map(value => {
+      const date = typeof value === 'string' || typeof value === 'number' ? parseTimestamp(value) : undefined;
+      if (!date) {
+        throw new AccessWindowError(`Invalid ${param} value "${value}"`, 400, 'INVALID_TIME_PARAM');
+      }
+      return date;
+    });
+}
+
+/**
+ * Resolve the window a history query may cover for the requested trucks, or
+ * for every truck the pipe grants when none were requested. A truck's window
+ * runs from its granted_at to its expires_at, so a user never sees history
+ * from before the truck was granted to them (e.g. while it belonged to
+ * another fleet).
+ *
+ * When several trucks are queried together the window is their intersection;
+ * query one truck at a time to get each truck's full window. This includes
+ * queries that name no truck: they start at the latest granted_at among all
+ * of the pipe's trucks.
+ *
+ * The range the client asked for is read from the query string and the
+ * parsed JSON `body`; when both carry it, the window narrows to both.
+ */
+export function resolveAccessWindow(
+  pipe: PipeDefinition,
+  truckAccess: TruckAccess[],
+  requested: string[],
+  searchParams: URLSearchParams,
+  body: unknown = null
+): AccessWindow {
+  if (!pipe.timeWindow) {
+    throw new Error(`Pipe ${pipe.name} does not define a time window`);
+  }
+
+  const pipeTrucks = getPipeTrucks(truckAccess).get(pipe.name) ?? [];
+  const trucks = requested.length > 0
+    ? requested.filter(truck => pipeTrucks.includes(truck))
+    : pipeTrucks;
+
+  if (trucks.length === 0) {
+    throw new AccessWindowError(`None of the requested trucks are accessible through ${pipe.name}`, 403, 'PIPE_ACCESS_DENIED');
+  }
+
+  const grants = truckAccess.filter(access => trucks.includes(access.truck_registration_no));
+
+  let start = new Date(Math.max(...grants.map(access => access.granted_at.getTime())));
+  const expiries = grants
+    .map(access => access.expires_at?.getTime())
+    .filter((time): time is number => time !== undefined);
+  let end = expiries.length > 0 ? new Date(Math.min(...expiries)) : undefined;
+
+  // Narrow further to the range the client asked for
+  parseTimeParam(searchParams, body, pipe.timeWindow.startParam).forEach(requestedStart => {
+    if (requestedStart > start) {
+      start = requestedStart;
+    }
+  });
+  parseTimeParam(searchParams, body, pipe.timeWindow.endParam).forEach(requestedEnd => {
+    if (!end || requestedEnd < end) {
+      end = requestedEnd;
+    }
+  });
+
+  if (end && end <= start) {
+    throw new AccessWindowError(`The requested time range is outside your access window for ${pipe.name}`);
+  }
+
+  return { trucks, start, end };
+}
@@ -0,0 +1,657 @@
+import { createReadStream } from 'node:fs';
+import { appendFile, mkdir } from 'node:fs/promises';
+import path from 'node:path';
+import { createInterface } from 'node:readline';
+import axios from 'axios';
+import { Context } from 'hono';
+import { RedisConnectionPool, redisPool } from './connectionPool.js';
+import { getPipe, getPipeTrucks } from './pipeRegistry.js';
+import { getTruckAccessDetails, getTruckSetFingerprint } from './truckFetcher.js';
+import { AuthUser } from './auth.js';
+import { RouteMatch } from './routePolicy.js';
+import { canonicalRegistrationNo } from './registrationNo.js';
+import { CacheStatus } from './responseCache.js';
+import { metrics, MetricNames } from './metrics.js';
+import { logger } from './logger.js';
+
+const log = logger.child({ module: 'audit' });
+
+export const AUDIT_SINK_TYPES = ['file', 'redis', 'tinybird'] as const;
+export type AuditSinkType = typeof AUDIT_SINK_TYPES[number];
+
+/**
+ * One proxied pipe request: who asked for which trucks, and what they got
+ */
+export interface AuditRecord {
+  requestId: string;
+  timestamp: string; // When the request arrived (ISO 8601)
+  userId: string;
+  method: string;
+  pipe: string;
+  format: string;
+  params: Record<string, string[]>;
+  // Trucks named in the pipe's RLS parameters (query string or JSON body),
+  // or every truck the pipe grants the user when none were named
+  registrationNos: string[];
+  truckSetFingerprint: string | null;
+  status: number; // Status returned to the client
+  upstreamStatus: number | null; // Null when Tinybird was never called
+  cache: CacheStatus | null; // Null for pipes without a cache policy
+  bytes: number;
+  rows: number | null; // Null when the format or encoding can't be counted
+  latencyMs: number; // Until the last byte was sent
+  completed: boolean; // False when the client went away mid-response
+}
+
+/**
+ * Filters for reading audit records back
+ */
+export interface AuditQuery {
+  userId?: string;
+  pipe?: string;
+  registrationNo?: string;
+  from?: Date;
+  to?: Date;
+  limit: number;
+}
+
+/**
+ * Destination for audit records. Sinks that can be read back implement
+ * `query`, returning the newest matching records first.
+ */
+export interface AuditSink {
+  readonly name: AuditSinkType;
+  write(records: AuditRecord[]): Promise<void>;
+  query?(query: AuditQuery): Promise<AuditRecord[]>;
+}
+
+export interface AuditConfig {
+  sinks: AuditSinkType[];
+  filePath: string;
+  streamKey: string;
+  streamMaxLength: number;
+  tinybirdDatasource: string;
+  flushIntervalMs: number;
+  batchSize: number;
+  // Records held per sink while it is failing; the oldest are dropped first
+  maxBufferedRecords: number;
+}
+
+export class AuditError extends Error {
+  constructor(message: string, public statusCode: number = 500, public code: string = 'AUDIT_ERROR') {
+    super(message);
+    this.name = 'AuditError';
+  }
+}
+
+// Query parameters never written to the audit log
+const EXCLUDED_PARAMS = new Set(['token']);
+
+const DEFAULT_QUERY_LIMIT = 100;
+const MAX_QUERY_LIMIT = 1000;
+
+// Stream entries read per XREVRANGE call, and at most per query
+const STREAM_PAGE_SIZE = 500;
+const STREAM_MAX_SCANNED = 50000;
+
+// Records reach the stream after their request finishes; look this far past
+// `to` so slow requests are not missed
+const STREAM_QUERY_SLACK_MS = 10 * 60 * 1000;
+
+/**
+ * Read and validate the audit settings, throwing AuditError on the first problem
+ */
+export function loadAuditConfig(env: NodeJS.ProcessEnv = process.env): AuditConfig {
+  const sinks = (env.AUDIT_SINKS ?? 'file')
+    .split(',')
+    .map(sink => sink.trim().toLowerCase())
+    .filter(sink => sink && sink !== 'none') as AuditSinkType[];
+
+  const invalidSink = sinks.find(sink => !AUDIT_SINK_TYPES.includes(sink));
+  if (invalidSink) {
+    throw new AuditError(`AUDIT_SINKS entries must be one of ${AUDIT_SINK_TYPES.join(', ')}, got "${invalidSink}"`);
+  }
+
+  return {
+    sinks: [...new Set(sinks)],
+    filePath: path.resolve(env.AUDIT_FILE_PATH || 'logs/audit.ndjson'),
+    streamKey: env.AUDIT_REDIS_STREAM || 'audit:requests',
+    streamMaxLength: parseInt(env.AUDIT_REDIS_STREAM_MAXLEN || '1000000'),
+    tinybirdDatasource: env.AUDIT_TINYBIRD_DATASOURCE || 'proxy_audit_log',
+    flushIntervalMs: parseInt(env.AUDIT_FLUSH_INTERVAL_MS || '1000'),
+    batchSize: parseInt(env.AUDIT_BATCH_SIZE || '500'),
+    maxBufferedRecords: parseInt(env.AUDIT_MAX_BUFFERED_RECORDS || '10000'),
+  };
+}
+
+function matchesQuery(record: AuditRecord, query: AuditQuery): boolean {
+  if (query.userId && record.userId !== query.userId) {
+    return false;
+  }
+  if (query.pipe && record.pipe !== query.pipe) {
+    return false;
+  }
+  if (query.registrationNo && !record.registrationNos.includes(query.registrationNo)) {
+    return false;
+  }
+
+  const timestamp = new Date(record.timestamp);
+  if (query.from && timestamp < query.from) {
+    return false;
+  }
+  if (query.to && timestamp > query.to) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Append records as NDJSON to a local file. Queries scan the whole file.
+ */
+export class FileAuditSink implements AuditSink {
+  readonly name = 'file';
+  private directoryReady = false;
+
+  constructor(private filePath: string) {}
+
+  async write(records: AuditRecord[]): Promise<void> {
+    if (!this.directoryReady) {
+      await mkdir(path.dirname(this.filePath), { recursive: true });
+      this.directoryReady = true;
+    }
+    await appendFile(this.filePath, records.map(record => `${JSON.stringify(record)}\n`).join(''));
+  }
+
+  async query(query: AuditQuery): Promise<AuditRecord[]> {
+    const matches: AuditRecord[] = [];
+    const lines = createInterface({ input: createReadStream(this.filePath), crlfDelay: Infinity });
+
+    try {
+      for await (const line of lines) {
+        if (!line) {
+          continue;
+        }
+        const record = JSON.parse(line) as AuditRecord;
+        if (matchesQuery(record, query)) {
+          matches.push(record);
+          // Keep only the newest `limit` matches
+          if (matches.length > query.limit) {
+            matches.shift();
+          }
+        }
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    return matches.reverse();
+  }
+}
+
+/**
+ * The stream ID just before `id`, for paging backwards without relying on
+ * exclusive ranges
+ */
+function previousStreamId(id: string): string | null {
+  const [ms, seq] = id.split('-').map(part => BigInt(part));
+  if (seq > 0n) {
+    return `${ms}-${seq - 1n}`;
+  }
+  return ms > 0n ? `${ms - 1n}-18446744073709551615` : null;
+}
+
+/**
+ * Add records to a capped Redis Stream, one entry per record. Entry IDs are
+ * write times, which bound the range a query has to scan.
+ */
+export class RedisStreamAuditSink implements AuditSink {
+  readonly name = 'redis';
+
+  constructor(private pool: RedisConnectionPool, private streamKey: string, private maxLength: number) {}
+
+  async write(records: AuditRecord[]): Promise<void> {
+    const results = await this.pool.execute(async (redis) => {
+      const pipeline = redis.pipeline();
+      records.forEach(record => {
+        pipeline.xadd(this.streamKey, 'MAXLEN', '~', this.maxLength, '*', 'record', JSON.stringify(record));
+      });
+      return pipeline.exec();
+    });
+
+    const failed = results?.find(([error]) => error);
+    if (failed) {
+      throw failed[0];
+    }
+  }
+
+  async query(query: AuditQuery): Promise<AuditRecord[]> {
+    const matches: AuditRecord[] = [];
+    const start = query.from ? String(query.from.getTime()) : '-';
+    let end: string | null = query.to ? String(query.to.getTime() + STREAM_QUERY_SLACK_MS) : '+';
+    let scanned = 0;
+
+    while (end && matches.length < query.limit && scanned < STREAM_MAX_SCANNED) {
+      const entries = await this.pool.execute(redis =>
+        redis.xrevrange(this.streamKey, end!, start, 'COUNT', STREAM_PAGE_SIZE)
+      );
+      if (entries.length === 0) {
+        break;
+      }
+
+      for (const [, fields] of entries) {
+        const recordIndex = fields.indexOf('record');
+        const record = JSON.parse(fields[recordIndex + 1]) as AuditRecord;
+        if (matchesQuery(record, query)) {
+          matches.push(record);
+          if (matches.length === query.limit) {
+            break;
+          }
+        }
+      }
+
+      scanned += entries.length;
+      end = entries.length < STREAM_PAGE_SIZE ? null : previousStreamId(entries[entries.length - 1][0]);
+    }
+
+    return matches;
+  }
+}
+
+/**
+ * Batch records into a Tinybird datasource through the Events API. Write
+ * only: query the datasource in Tinybird itself.
+ */
+export class TinybirdEventsAuditSink implements AuditSink {
+  readonly name = 'tinybird';
+
+  constructor(private datasource: string) {}
+
+  async write(records: AuditRecord[]): Promise<void> {
+    const tinybirdApiUrl = process.env.TINYBIRD_API_URL;
+    const token = process.env.AUDIT_TINYBIRD_TOKEN || process.env.TINYBIRD_ADMIN_TOKEN;
+    if (!tinybirdApiUrl || !token) {
+      throw new AuditError('TINYBIRD_API_URL and AUDIT_TINYBIRD_TOKEN (or TINYBIRD_ADMIN_TOKEN) are required for the tinybird audit sink');
+    }
+
+    await axios.post(
+      `${tinybirdApiUrl.replace(/\/+$/, '')}/v0/events`,
+      records.map(record => JSON.stringify(record)).join('\n'),
+      {
+        params: { name: this.datasource },
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/x-ndjson',
+        },
+        timeout: 10000,
+      }
+    );
+  }
+}
+
+function createSink(type: AuditSinkType, config: AuditConfig): AuditSink {
+  switch (type) {
+    case 'file':
+      return new FileAuditSink(config.filePath);
+    case 'redis':
+      return new RedisStreamAuditSink(redisPool, config.streamKey, config.streamMaxLength);
+    case 'tinybird':
+      return new TinybirdEventsAuditSink(config.tinybirdDatasource);
+  }
+}
+
+interface SinkQueue {
+  sink: AuditSink;
+  records: AuditRecord[];
+}
+
+/**
+ * Buffers audit records off the request path and writes them to every
+ * configured sink in batches. Each sink has its own queue, so a failing
+ * sink retries its batch on the next flush without duplicating records in
+ * the others.
+ */
+export class AuditLogger {
+  private queues: SinkQueue[];
+  private flushTimer: NodeJS.Timeout | null = null;
+  private flushing: Promise<void> | null = null;
+
+  constructor(sinks: AuditSink[], private config: AuditConfig) {
+    this.queues = sinks.map(sink => ({ sink, records: [] }));
+  }
+
+  get enabled(): boolean {
+    return this.queues.length > 0;
+  }
+
+  get sinkNames(): AuditSinkType[] {
+    return this.queues.map(queue => queue.sink.name);
+  }
+
+  start(): void {
+    if (!this.enabled || this.flushTimer) {
+      return;
+    }
+    this.flushTimer = setInterval(() => {
+      void this.flush();
+    }, this.config.flushIntervalMs);
+    this.flushTimer.unref();
+  }
+
+  record(record: AuditRecord): void {
+    this.queues.forEach(queue => {
+      queue.records.push(record);
+      this.trimQueue(queue);
+    });
+
+    if (this.queues.some(queue => queue.records.length >= this.config.batchSize)) {
+      void this.flush();
+    }
+  }
+
+  /**
+   * Write everything buffered. Concurrent calls share the flush in progress.
+   */
+  flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = Promise.all(this.queues.map(queue => this.flushQueue(queue)))
+        .then(() => undefined)
+        .finally(() => {
+          this.flushing = null;
+        });
+    }
+    return this.flushing;
+  }
+
+  /**
+   * Read records back from the first sink that supports queries
+   */
+  async query(query: AuditQuery): Promise<AuditRecord[]> {
+    const sink = this.queues.map(queue => queue.sink).find(s => s.query);
+    if (!sink) {
+      throw new AuditError('No configured audit sink supports queries (use the file or redis sink)', 501, 'AUDIT_QUERY_UNSUPPORTED');
+    }
+    return sink.query!(query);
+  }
+
+  async shutdown(): Promise<void> {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+    await this.flush();
+  }
+
+  private async flushQueue(queue: SinkQueue): Promise<void> {
+    while (queue.records.length > 0) {
+      const batch = queue.records.splice(0, this.config.batchSize);
+      try {
+        await queue.sink.write(batch);
+        metrics.incrementCounter(MetricNames.AUDIT_RECORDS_WRITTEN, batch.length, { sink: queue.sink.name });
+      } catch (error) {
+        metrics.incrementCounter(MetricNames.AUDIT_WRITE_ERROR, 1, { sink: queue.sink.name });
+        log.error('Failed to write audit records', { sink: queue.sink.name, records: batch.length, error });
+
+        // Put the batch back for the next flush
+        queue.records.unshift(...batch);
+        this.trimQueue(queue);
+        return;
+      }
+    }
+  }
+
+  private trimQueue(queue: SinkQueue): void {
+    const excess = queue.records.length - this.config.maxBufferedRecords;
+    if (excess > 0) {
+      queue.records.splice(0, excess);
+      metrics.incrementCounter(MetricNames.AUDIT_RECORDS_DROPPED, excess, { sink: queue.sink.name });
+      log.warn('Audit buffer full, dropped oldest records', { sink: queue.sink.name, dropped: excess });
+    }
+  }
+}
+
+let auditLogger: AuditLogger | null = null;
+
+/**
+ * Get the audit logger for the configured sinks, creating it on first use
+ */
+export function getAuditLogger(): AuditLogger {
+  if (!auditLogger) {
+    const config = loadAuditConfig();
+    auditLogger = new AuditLogger(config.sinks.map(type => createSink(type, config)), config);
+  }
+  return auditLogger;
+}
+
+/**
+ * Parse the admin query string, throwing AuditError on invalid values
+ */
+export function parseAuditQuery(searchParams: URLSearchParams): AuditQuery {
+  const parseDate = (param: string): Date | undefined => {
+    const value = searchParams.get(param);
+    if (!value) {
+      return undefined;
+    }
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      throw new AuditError(`Invalid ${param} value "${value}"`, 400, 'INVALID_AUDIT_QUERY');
+    }
+    return date;
+  };
+
+  const limit = parseInt(searchParams.get('limit') || String(DEFAULT_QUERY_LIMIT));
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_QUERY_LIMIT) {
+    throw new AuditError(`limit must be between 1 and ${MAX_QUERY_LIMIT}`, 400, 'INVALID_AUDIT_QUERY');
+  }
+
+  const registrationNo = searchParams.get('registrationNo');
+  return {
+    userId: searchParams.get('userId') || undefined,
+    pipe: searchParams.get('pipe') || undefined,
+    registrationNo: registrationNo ? canonicalRegistrationNo(registrationNo) : undefined,
+    from: parseDate('from'),
+    to: parseDate('to'),
+    limit,
+  };
+}
+
+/**
+ * What the client received: bytes as returned by Tinybird (before any
+ * compression by the proxy) and, for formats that allow it, rows
+ */
+export interface ResponseUsage {
+  bytes: number;
+  rows: number | null;
+  completed: boolean;
+}
+
+// The JSON format ends with `"rows": N, "statistics": {...}`; this much of
+// the tail is kept to find it
+const JSON_TAIL_LENGTH = 2048;
+const JSON_ROWS_PATTERN = /"rows"\s*:\s*(\d+)/g;
+
+interface RowCounter {
+  add(chunk: Uint8Array): void;
+  rows(): number | null;
+}
+
+/**
+ * Count rows in a response body as it streams past. NDJSON and CSV count
+ * lines (CSV less its header row); JSON reads the `rows` field. Other
+ * formats and compressed bodies are not counted.
+ */
+function createRowCounter(format: string, contentEncoding: string | null): RowCounter | null {
+  if (contentEncoding && contentEncoding !== 'identity') {
+    return null;
+  }
+
+  if (format === 'ndjson' || format === 'csv') {
+    let lines = 0;
+    let lastByte: number | undefined;
+    return {
+      add(chunk) {
+        chunk.forEach(byte => {
+          if (byte === 0x0a) {
+            lines++;
+          }
+        });
+        lastByte = chunk.length > 0 ? chunk[chunk.length - 1] : lastByte;
+      },
+      rows() {
+        // A final line without a trailing newline still counts
+        const total = lastByte !== undefined && lastByte !== 0x0a ? lines + 1 : lines;
+        return format === 'csv' ? Math.max(0, total - 1) : total;
+      },
+    };
+  }
+
+  if (format === 'json') {
+    const decoder = new TextDecoder();
+    let tail = '';
+    return {
+      add(chunk) {
+        tail = (tail + decoder.decode(chunk, { stream: true })).slice(-JSON_TAIL_LENGTH);
+      },
+      rows() {
+        const matches = [...tail.matchAll(JSON_ROWS_PATTERN)];
+        return matches.length > 0 ? parseInt(matches[matches.length - 1][1]) : null;
+      },
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Pass a response body through unchanged, calling `onDone` once with what
+ * was sent when it ends, fails or the client cancels it
+ */
+function meterResponseBody(
+  body: ReadableStream<Uint8Array>,
+  rowCounter: RowCounter | null,
+  onDone: (usage: ResponseUsage) => void
+): ReadableStream<Uint8Array> {
+  const reader = body.getReader();
+  let bytes = 0;
+  let finished = false;
+
+  const finish = (completed: boolean) => {
+    if (!finished) {
+      finished = true;
+      onDone({ bytes, rows: completed ? rowCounter?.rows() ?? null : null, completed });
+    }
+  };
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          controller.close();
+          finish(true);
+          return;
+        }
+        bytes += value.byteLength;
+        rowCounter?.add(value);
+        controller.enqueue(value);
+      } catch (error) {
+        finish(false);
+        controller.error(error);
+      }
+    },
+    cancel(reason) {
+      finish(false);
+      return reader.cancel(reason);
+    },
+  });
+}
+
+/**
+ * Build the audit record for a finished request. Truck access is normally
+ * cached by now (the route policy loaded it); if it can't be read the
+ * record is still written without the fingerprint.
+ */
+async function buildAuditRecord(
+  c: Context,
+  response: Response,
+  startedAt: number,
+  latencyMs: number,
+  usage: ResponseUsage
+): Promise<AuditRecord> {
+  const user = c.get('user') as AuthUser;
+  const route = c.get('route') as RouteMatch;
+  const pipe = getPipe(route.pipe)!;
+  const searchParams = new URL(c.req.url).searchParams;
+
+  const params: Record<string, string[]> = {};
+  searchParams.forEach((value, key) => {
+    if (!EXCLUDED_PARAMS.has(key.toLowerCase())) {
+      (params[key] ??= []).push(value);
+    }
+  });
+
+  let registrationNos = c.get('requestedTrucks') as string[];
+  let truckSetFingerprint: string | null = null;
+  try {
+    const truckAccess = await getTruckAccessDetails(user.userId);
+    truckSetFingerprint = getTruckSetFingerprint(truckAccess);
+    if (registrationNos.length === 0) {
+      registrationNos = getPipeTrucks(truckAccess).get(pipe.name) ?? [];
+    }
+  } catch (error) {
+    log.warn('Could not load truck access for audit record', { userId: user.userId, error });
+  }
+
+  return {
+    requestId: c.get('requestId') as string,
+    timestamp: new Date(startedAt).toISOString(),
+    userId: user.userId,
+    method: c.req.method,
+    pipe: pipe.name,
+    format: route.format,
+    params,
+    registrationNos,
+    truckSetFingerprint,
+    status: response.status,
+    upstreamStatus: (c.get('upstreamStatus') as number | undefined) ?? null,
+    cache: (c.get('cacheStatus') as CacheStatus | undefined) ?? null,
+    bytes: usage.bytes,
+    rows: usage.rows,
+    latencyMs,
+    completed: usage.completed,
+  };
+}
+
+/**
+ * Audit a proxied pipe request. The record is written once the response
+ * body has been sent, so it carries the bytes and rows the client actually
+ * received. Expects `user`, `route` and `requestedTrucks` on the context,
+ * and `upstreamStatus` once Tinybird has answered (`cacheStatus` for
+ * cacheable pipes).
+ */
+export function auditResponse(c: Context, response: Response, startedAt: number): Response {
+  const audit = getAuditLogger();
+  if (!audit.enabled) {
+    return response;
+  }
+
+  const onDone = (usage: ResponseUsage) => {
+    buildAuditRecord(c, response, startedAt, Date.now() - startedAt, usage)
+      .then(record => audit.record(record))
+      .catch(error => log.error('Failed to build audit record', { error }));
+  };
+
+  if (!response.body) {
+    onDone({ bytes: 0, rows: null, completed: true });
+    return response;
+  }
+
+  const route = c.get('route') as RouteMatch;
+  const rowCounter = createRowCounter(route.format, response.headers.get('content-encoding'));
+  return new Response(meterResponseBody(response.body, rowCounter, onDone), {
+    status: response.status,
+    headers: response.headers,
+  });
+}
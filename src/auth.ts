@@ -1,6 +1,10 @@
 import { Context, Next } from 'hono';
 import { getCookie } from 'hono/cookie';
 import jwt from 'jsonwebtoken';
+import { withSpan } from './tracing.js';
+import { logger } from './logger.js';
+
+const log = logger.child({ module: 'auth' });
 
 export interface AuthUser {
   userId: string;
@@ -18,40 +22,54 @@ export class AuthError extends Error {
   }
 }
 
-export const authMiddleware = async (c: Context, next: Next) => {
-  try {
-    // Primary: Extract JWT from cookies
-    let token = getCookie(c, 'auth_token') || getCookie(c, 'jwt') || getCookie(c, 'access_token');
-    
-    // Fallback: Check Authorization header for Bearer token
-    if (!token) {
-      const authHeader = c.req.header('Authorization');
-      if (authHeader && authHeader.startsWith('Bearer ')) {
-        token = authHeader.substring(7); // Remove 'Bearer ' prefix
-      }
-    }
-    
-    if (!token) {
-      throw new AuthError('Authentication required. Please provide a valid JWT token in cookies or Authorization header.', 401);
-    }
-    
-    const jwtSecret = process.env.JWT_SECRET;
-    if (!jwtSecret) {
-      throw new AuthError('JWT_SECRET environment variable is not configured', 500);
+/**
+ * Extract and verify the user's JWT from cookies or the Authorization header
+ * Throws AuthError or a jsonwebtoken error
+ */
+function verifyRequestUser(c: Context): AuthUser {
+  // Primary: Extract JWT from cookies
+  let token = getCookie(c, 'auth_token') || getCookie(c, 'jwt') || getCookie(c, 'access_token');
+  
+  // Fallback: Check Authorization header for Bearer token
+  if (!token) {
+    const authHeader = c.req.header('Authorization');
+    if (authHeader && authHeader.startsWith('Bearer ')) {
+      token = authHeader.substring(7); // Remove 'Bearer ' prefix
     }
+  }
+  
+  if (!token) {
+    throw new AuthError('Authentication required. Please provide a valid JWT token in cookies or Authorization header.', 401);
+  }
+  
+  const jwtSecret = process.env.JWT_SECRET;
+  if (!jwtSecret) {
+    throw new AuthError('JWT_SECRET environment variable is not configured', 500);
+  }
 
-    // Verify the JWT token
-    const decoded = jwt.verify(token, jwtSecret) as any;
-    
-    if (!decoded.userId) {
-      throw new AuthError('Invalid token: userId not found in JWT payload', 401);
-    }
+  // Verify the JWT token
+  const decoded = jwt.verify(token, jwtSecret) as any;
+  
+  if (!decoded.userId) {
+    throw new AuthError('Invalid token: userId not found in JWT payload', 401);
+  }
+
+  return {
+    userId: decoded.userId,
+    ...decoded
+  } as AuthUser;
+}
+
+export const authMiddleware = async (c: Context, next: Next) => {
+  try {
+    const user = await withSpan('auth.verify', {}, async (span) => {
+      const verified = verifyRequestUser(c);
+      span.setAttribute('enduser.id', verified.userId);
+      return verified;
+    });
 
     // Attach user to context
-    c.set('user', {
-      userId: decoded.userId,
-      ...decoded
-    } as AuthUser);
+    c.set('user', user);
 
     await next();
   } catch (error) {
@@ -79,11 +97,49 @@ export const authMiddleware = async (c: Context, next: Next) => {
       }, 401 as any);
     }
     
-    console.error('Auth middleware error:', error);
+    log.error('Auth middleware error', { error });
     return c.json({ 
       error: 'Internal authentication error',
       code: 'AUTH_INTERNAL_ERROR',
       timestamp: new Date().toISOString()
     }, 500 as any);
   }
-}; 
\ No newline at end of file
+}; 
+/**
+ * Whether the user may call admin endpoints: their JWT carries an `admin`
+ * role (`role` or `roles`), or their user ID is listed in ADMIN_USER_IDS
+ */
+export function isAdmin(user: AuthUser): boolean {
+  const roles: unknown[] = Array.isArray(user.roles) ? user.roles : [user.role];
+  if (roles.includes('admin')) {
+    return true;
+  }
+
+  const adminUserIds = (process.env.ADMIN_USER_IDS || '').split(',').map(id => id.trim()).filter(Boolean);
+  return adminUserIds.includes(String(user.userId));
+}
+
+/**
+ * The organisation a user belongs to, from the `orgId` (or `org_id`) JWT
+ * claim, or null
+ */
+export function getUserOrgId(user: AuthUser): string | null {
+  const orgId = user.orgId ?? user.org_id;
+  return orgId === undefined || orgId === null || orgId === '' ? null : String(orgId);
+}
+
+/**
+ * Reject authenticated users who are not admins. Must run after authMiddleware.
+ */
+export const adminMiddleware = async (c: Context, next: Next) => {
+  const user = c.get('user') as AuthUser | undefined;
+  if (!user || !isAdmin(user)) {
+    return c.json({
+      error: 'Admin access required',
+      code: 'ADMIN_REQUIRED',
+      timestamp: new Date().toISOString()
+    }, 403 as any);
+  }
+
+  await next();
+};
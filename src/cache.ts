@@ -0,0 +1,307 @@
+import { SpanKind } from '@opentelemetry/api';
+import { RedisConnectionPool, redisPool, redisReadPool } from './connectionPool.js';
+import { createRedisClient, getRedisConfig, RedisClient, RedisConnectionConfig } from './redisConfig.js';
+import { metrics, MetricNames } from './metrics.js';
+import { withSpan } from './tracing.js';
+import { logger } from './logger.js';
+
+const log = logger.child({ module: 'cache' });
+
+/**
+ * Per-namespace cache settings
+ */
+export interface CacheNamespaceConfig {
+  // Default DragonflyDB TTL when set() is called without one
+  ttlSeconds: number;
+  // Upper bound on how long an entry lives in the in-process tier
+  localTtlSeconds: number;
+}
+
+interface LocalEntry {
+  value: string;
+  expiresAt: number; // Epoch milliseconds
+}
+
+const INVALIDATION_CHANNEL = 'cache:invalidate';
+
+/**
+ * Bounded in-process LRU with per-entry expiry.
+ * Relies on Map preserving insertion order: the first key is the least
+ * recently used one.
+ */
+export class LRUCache {
+  private entries: Map<string, LocalEntry> = new Map();
+
+  constructor(private maxEntries: number) {}
+
+  get(key: string): string | null {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    // Move to most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: string, value: string, ttlMs: number): void {
+    if (ttlMs <= 0) {
+      this.entries.delete(key);
+      return;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+/**
+ * A namespaced view of the tiered cache. Keys are stored in DragonflyDB
+ * as `<namespace>:<key>`.
+ */
+export class CacheNamespace {
+  constructor(
+    private cache: TieredCache,
+    public readonly name: string,
+    public readonly config: CacheNamespaceConfig
+  ) {}
+
+  private fullKey(key: string): string {
+    return `${this.name}:${key}`;
+  }
+
+  /**
+   * Read from the in-process tier, then DragonflyDB
+   * Throws when DragonflyDB is unavailable and the entry is not held locally
+   */
+  async get(key: string): Promise<string | null> {
+    return this.cache.get(this.fullKey(key), this.config);
+  }
+
+  /**
+   * Write to both tiers
+   */
+  async set(key: string, value: string, ttlSeconds: number = this.config.ttlSeconds): Promise<void> {
+    await this.cache.set(this.fullKey(key), value, ttlSeconds, this.config);
+  }
+
+  /**
+   * Delete from both tiers and tell every replica to drop its local copy
+   */
+  async delete(key: string): Promise<void> {
+    await this.cache.delete(this.fullKey(key));
+  }
+
+  async getJSON<T>(key: string): Promise<T | null> {
+    const value = await this.get(key);
+    return value === null ? null : JSON.parse(value) as T;
+  }
+
+  async setJSON(key: string, value: unknown, ttlSeconds?: number): Promise<void> {
+    await this.set(key, JSON.stringify(value), ttlSeconds);
+  }
+}
+
+/**
+ * Two-tier cache: a bounded in-process LRU in front of DragonflyDB.
+ * Explicit deletions are broadcast over Redis pub/sub so every replica
+ * evicts its local copy. Reads may be served by `readPool` (Redis replicas);
+ * writes, deletes and publishes always go to the primary.
+ */
+export class TieredCache {
+  private local: LRUCache;
+  private subscriber: RedisClient | null = null;
+  private namespaces: Map<string, CacheNamespace> = new Map();
+
+  constructor(
+    private pool: RedisConnectionPool,
+    private readPool: RedisConnectionPool,
+    private redisConfig: RedisConnectionConfig,
+    maxLocalEntries: number
+  ) {
+    this.local = new LRUCache(maxLocalEntries);
+  }
+
+  /**
+   * Get (or create) a namespace with its TTL settings
+   */
+  namespace(name: string, config: CacheNamespaceConfig): CacheNamespace {
+    let namespace = this.namespaces.get(name);
+    if (!namespace) {
+      namespace = new CacheNamespace(this, name, config);
+      this.namespaces.set(name, namespace);
+    }
+    return namespace;
+  }
+
+  /**
+   * Subscribe to invalidations from other replicas
+   */
+  async start(): Promise<void> {
+    if (this.subscriber) {
+      return;
+    }
+
+    // Subscribed connections cannot run other commands, so this one lives outside the pool
+    this.subscriber = createRedisClient(this.redisConfig, {
+      maxRetriesPerRequest: null,
+      lazyConnect: true,
+    });
+
+    this.subscriber.on('error', (error) => {
+      log.error('Cache invalidation subscriber error', { error });
+    });
+
+    this.subscriber.on('message', (channel, fullKey) => {
+      if (channel === INVALIDATION_CHANNEL) {
+        this.local.delete(fullKey);
+      }
+    });
+
+    // Entries may have been invalidated while we were disconnected, e.g.
+    // during a failover; ioredis resubscribes on reconnect
+    this.subscriber.on('ready', () => {
+      this.local.clear();
+    });
+
+    try {
+      await this.subscriber.connect();
+      await this.subscriber.subscribe(INVALIDATION_CHANNEL);
+      log.info('Subscribed to cache invalidations');
+    } catch (error) {
+      log.error('Failed to subscribe to cache invalidations', { error });
+    }
+  }
+
+  /**
+   * Run a DragonflyDB round trip in a span, recording CACHE_OPERATION_*
+   * metrics labelled with the key's namespace and the operation
+   */
+  private async timeOperation<T>(operation: string, fullKey: string, fn: () => Promise<T>): Promise<T> {
+    const labels = { namespace: fullKey.split(':')[0], operation };
+    const timer = metrics.startTimer(MetricNames.CACHE_OPERATION_DURATION, labels);
+
+    try {
+      return await withSpan(`cache.${operation}`, { 'db.system.name': 'redis', 'cache.namespace': labels.namespace }, fn, SpanKind.CLIENT);
+    } catch (error) {
+      metrics.incrementCounter(MetricNames.CACHE_ERROR, 1, labels);
+      throw error;
+    } finally {
+      timer();
+    }
+  }
+
+  async get(fullKey: string, config: CacheNamespaceConfig): Promise<string | null> {
+    const namespace = fullKey.split(':')[0];
+    const localValue = this.local.get(fullKey);
+    if (localValue !== null) {
+      metrics.incrementCounter(MetricNames.CACHE_HIT, 1, { namespace, tier: 'local' });
+      return localValue;
+    }
+
+    const [value, ttlMs] = await this.timeOperation('get', fullKey, () => this.readPool.execute(async (redis) => {
+      const results = await redis.multi().get(fullKey).pttl(fullKey).exec();
+      return [results?.[0]?.[1] as string | null, results?.[1]?.[1] as number] as const;
+    }));
+
+    if (value === null) {
+      metrics.incrementCounter(MetricNames.CACHE_MISS, 1, { namespace });
+    } else {
+      metrics.incrementCounter(MetricNames.CACHE_HIT, 1, { namespace, tier: 'dragonfly' });
+      // Never keep a local copy longer than the DragonflyDB entry lives
+      const remainingMs = ttlMs > 0 ? ttlMs : config.localTtlSeconds * 1000;
+      this.local.set(fullKey, value, Math.min(remainingMs, config.localTtlSeconds * 1000));
+    }
+
+    return value;
+  }
+
+  async set(fullKey: string, value: string, ttlSeconds: number, config: CacheNamespaceConfig): Promise<void> {
+    this.local.set(fullKey, value, Math.min(ttlSeconds, config.localTtlSeconds) * 1000);
+    await this.timeOperation('set', fullKey, () => this.pool.execute(async (redis) => {
+      await redis.setex(fullKey, ttlSeconds, value);
+    }));
+  }
+
+  async delete(fullKey: string): Promise<void> {
+    this.local.delete(fullKey);
+    await this.timeOperation('delete', fullKey, () => this.pool.execute(async (redis) => {
+      await redis.del(fullKey);
+      await redis.publish(INVALIDATION_CHANNEL, fullKey);
+    }));
+  }
+
+  getStats() {
+    return {
+      localEntries: this.local.size,
+      namespaces: [...this.namespaces.keys()],
+      subscriberStatus: this.subscriber?.status ?? 'not started',
+    };
+  }
+
+  async shutdown(): Promise<void> {
+    this.local.clear();
+    if (this.subscriber) {
+      try {
+        await this.subscriber.quit();
+      } catch (error) {
+        log.error('Error closing cache invalidation subscriber', { error });
+      }
+      this.subscriber = null;
+    }
+  }
+}
+
+// Shared cache instance
+export const cache = new TieredCache(
+  redisPool,
+  redisReadPool,
+  getRedisConfig(),
+  parseInt(process.env.CACHE_LOCAL_MAX_ENTRIES || '10000')
+);
+
+// Cache namespaces
+export const tokenCache = cache.namespace('tinybird_token', {
+  ttlSeconds: 3600,
+  localTtlSeconds: parseInt(process.env.CACHE_TOKEN_LOCAL_TTL || '60'),
+});
+
+export const truckAccessCache = cache.namespace('truck_access_details', {
+  ttlSeconds: 300,
+  localTtlSeconds: parseInt(process.env.CACHE_TRUCK_ACCESS_LOCAL_TTL || '30'),
+});
+
+// Last known good truck access, served while PlanetScale is failing
+export const truckAccessStaleCache = cache.namespace('truck_access_stale', {
+  ttlSeconds: parseInt(process.env.TRUCK_ACCESS_STALE_TTL || '604800'), // 7 days
+  localTtlSeconds: 30,
+});
+
+export const rateLimitTierCache = cache.namespace('rate_limit_tier', {
+  ttlSeconds: 300,
+  localTtlSeconds: 60,
+});
@@ -0,0 +1,147 @@
+import { metrics, MetricNames } from './metrics.js';
+import { logger } from './logger.js';
+
+const log = logger.child({ module: 'circuitBreaker' });
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+/**
+ * Circuit breaker configuration
+ */
+export interface CircuitBreakerOptions {
+  // Consecutive failures that open the circuit
+  failureThreshold: number;
+  // How long the circuit stays open before allowing probe calls
+  resetTimeoutMs: number;
+  // Concurrent probe calls allowed while half-open
+  halfOpenMaxCalls: number;
+}
+
+export class CircuitOpenError extends Error {
+  constructor(public breakerName: string, public retryAfterMs: number) {
+    super(`Circuit breaker ${breakerName} is open`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+// Gauge values exported for each state
+const STATE_VALUES: Record<CircuitState, number> = {
+  closed: 0,
+  half_open: 1,
+  open: 2,
+};
+
+/**
+ * Circuit breaker for calls to an external dependency. After
+ * `failureThreshold` consecutive failures, calls fail fast with
+ * CircuitOpenError until `resetTimeoutMs` has passed; then a limited number
+ * of probe calls decide whether to close the circuit again.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures: number = 0;
+  private openedAt: number = 0;
+  private halfOpenCalls: number = 0;
+  private options: CircuitBreakerOptions;
+
+  constructor(public readonly name: string, options?: Partial<CircuitBreakerOptions>) {
+    this.options = {
+      failureThreshold: options?.failureThreshold || 5,
+      resetTimeoutMs: options?.resetTimeoutMs || 30000,
+      halfOpenMaxCalls: options?.halfOpenMaxCalls || 1,
+    };
+    metrics.setGauge(MetricNames.CIRCUIT_BREAKER_STATE, STATE_VALUES[this.state], { breaker: this.name });
+  }
+
+  async execute<T>(operation: () => Promise<T>): Promise<T> {
+    this.beforeCall();
+
+    try {
+      const result = await operation();
+      this.onSuccess();
+      return result;
+    } catch (error) {
+      this.onFailure();
+      throw error;
+    }
+  }
+
+  getState(): CircuitState {
+    // Report half-open as soon as the reset timeout has elapsed
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.options.resetTimeoutMs) {
+      return 'half_open';
+    }
+    return this.state;
+  }
+
+  /**
+   * Whether a call made now would be attempted rather than rejected
+   */
+  isCallPermitted(): boolean {
+    const state = this.getState();
+    return state === 'closed' || (state === 'half_open' && this.halfOpenCalls < this.options.halfOpenMaxCalls);
+  }
+
+  /**
+   * How long until a call would be attempted again; 0 when one would be now
+   */
+  getRetryAfterMs(): number {
+    if (this.isCallPermitted()) {
+      return 0;
+    }
+    return this.state === 'open'
+      ? Math.max(0, this.options.resetTimeoutMs - (Date.now() - this.openedAt))
+      : this.options.resetTimeoutMs;
+  }
+
+  getStats() {
+    return {
+      state: this.getState(),
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt ? new Date(this.openedAt).toISOString() : null,
+    };
+  }
+
+  private beforeCall(): void {
+    if (this.state === 'open') {
+      const elapsed = Date.now() - this.openedAt;
+      if (elapsed < this.options.resetTimeoutMs) {
+        throw new CircuitOpenError(this.name, this.options.resetTimeoutMs - elapsed);
+      }
+      this.transition('half_open');
+    }
+
+    if (this.state === 'half_open') {
+      if (this.halfOpenCalls >= this.options.halfOpenMaxCalls) {
+        throw new CircuitOpenError(this.name, this.options.resetTimeoutMs);
+      }
+      this.halfOpenCalls++;
+    }
+  }
+
+  private onSuccess(): void {
+    this.consecutiveFailures = 0;
+    if (this.state !== 'closed') {
+      this.transition('closed');
+    }
+  }
+
+  private onFailure(): void {
+    this.consecutiveFailures++;
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.openedAt = Date.now();
+      this.transition('open');
+    }
+  }
+
+  private transition(state: CircuitState): void {
+    if (this.state === state) {
+      return;
+    }
+
+    log.warn('Circuit breaker state changed', { breaker: this.name, from: this.state, to: state });
+    this.state = state;
+    this.halfOpenCalls = 0;
+    metrics.setGauge(MetricNames.CIRCUIT_BREAKER_STATE, STATE_VALUES[state], { breaker: this.name });
+  }
+}
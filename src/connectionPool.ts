@@ -1,4 +1,8 @@
-import Redis from 'ioredis';
+import { createRedisClient, getRedisConfig, isFailoverAware, RedisClient, RedisConnectionConfig, RedisRole } from './redisConfig.js';
+import { metrics, MetricNames } from './metrics.js';
+import { logger } from './logger.js';
+
+const log = logger.child({ module: 'connectionPool' });
 
 /**
  * Connection pool configuration for high scalability
@@ -6,37 +10,75 @@ import Redis from 'ioredis';
 export interface PoolConfig {
   minConnections: number;
   maxConnections: number;
+  // Idle connections above minConnections are closed after this long
   idleTimeoutMs: number;
+  // Used both as the connect timeout and as the longest acquire() waits in the queue
   connectionTimeoutMs: number;
+  // Callers allowed to wait for a connection before acquire() rejects immediately
+  maxWaitQueue: number;
+}
+
+export type PoolErrorCode = 'ACQUIRE_TIMEOUT' | 'QUEUE_FULL' | 'POOL_SHUTDOWN';
+
+export class ConnectionPoolError extends Error {
+  constructor(message: string, public code: PoolErrorCode) {
+    super(message);
+    this.name = 'ConnectionPoolError';
+  }
+}
+
+interface Waiter {
+  resolve: (redis: RedisClient) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+  enqueuedAt: number;
 }
 
 /**
  * Redis connection pool for DragonflyDB
- * Manages multiple connections for better concurrency
+ * Manages multiple connections for better concurrency.
+ *
+ * Callers that find no free connection wait in a FIFO queue and are handed
+ * a connection directly when one is released. Connection health is tracked
+ * through ioredis `error`/`close` events rather than per-release PINGs.
  */
 export class RedisConnectionPool {
-  private pool: Redis[];
-  private available: Redis[];
-  private inUse: Set<Redis>;
+  private pool: RedisClient[];
+  // Ordered least to most recently released; acquire() takes from the end
+  private available: RedisClient[];
+  private inUse: Set<RedisClient>;
+  private lastReleasedAt: Map<RedisClient, number> = new Map();
+  private waiters: Waiter[] = [];
   private config: PoolConfig;
-  private connectionUrl: string;
+  private redisConfig: RedisConnectionConfig;
+  private role: RedisRole;
+  // Keep connections through reconnects when Sentinel/Cluster can move the primary
+  private failoverAware: boolean;
   private creating: number = 0;
+  private evictionTimer: NodeJS.Timeout | null = null;
+  private closed: boolean = false;
 
-  constructor(connectionUrl: string, config?: Partial<PoolConfig>) {
-    this.connectionUrl = connectionUrl;
+  constructor(redisConfig: RedisConnectionConfig, config?: Partial<PoolConfig>, role: RedisRole = 'master') {
+    this.redisConfig = redisConfig;
+    this.role = role;
+    this.failoverAware = isFailoverAware(redisConfig);
     this.config = {
       minConnections: config?.minConnections || 5,
       maxConnections: config?.maxConnections || 50,
       idleTimeoutMs: config?.idleTimeoutMs || 30000,
       connectionTimeoutMs: config?.connectionTimeoutMs || 5000,
+      maxWaitQueue: config?.maxWaitQueue || 1000,
     };
-    
+
     this.pool = [];
     this.available = [];
     this.inUse = new Set();
-    
+
     // Initialize minimum connections
     this.initializePool();
+
+    this.evictionTimer = setInterval(() => this.evictIdleConnections(), Math.max(1000, this.config.idleTimeoutMs / 2));
+    this.evictionTimer.unref();
   }
 
   private async initializePool(): Promise<void> {
@@ -44,77 +86,174 @@ export class RedisConnectionPool {
     for (let i = 0; i < this.config.minConnections; i++) {
       promises.push(this.createConnection());
     }
-    
+
     try {
       const connections = await Promise.all(promises);
       connections.forEach(conn => {
         if (conn) {
           this.pool.push(conn);
-          this.available.push(conn);
+          this.makeAvailable(conn);
         }
       });
-      console.log(`Initialized Redis connection pool with ${this.available.length} connections`);
+      log.info('Initialized Redis connection pool', { role: this.role, connections: this.pool.length });
     } catch (error) {
-      console.error('Failed to initialize connection pool:', error);
+      log.error('Failed to initialize connection pool', { role: this.role, error });
     }
   }
 
-  private async createConnection(): Promise<Redis | null> {
+  private async createConnection(): Promise<RedisClient | null> {
+    let redis: RedisClient | null = null;
     try {
       this.creating++;
-      const redis = new Redis(this.connectionUrl, {
+      redis = createRedisClient(this.redisConfig, {
         maxRetriesPerRequest: 3,
         lazyConnect: false,
         connectTimeout: this.config.connectionTimeoutMs,
         enableReadyCheck: true,
-        enableOfflineQueue: false,
-      });
+        // During a failover, queue commands until the new primary is found
+        // instead of failing them
+        enableOfflineQueue: this.failoverAware,
+      }, this.role);
 
       // Set up connection event handlers
-      redis.on('error', (error) => {
-        console.error('Redis connection error:', error);
-        this.removeConnection(redis);
-      });
+      const conn = redis;
+      if (this.failoverAware) {
+        // ioredis reconnects through Sentinel/Cluster on its own; only drop
+        // the connection once it gives up
+        conn.on('error', (error) => {
+          log.warn('Redis connection error, reconnecting', { role: this.role, error: error.message });
+        });
+        conn.on('end', () => {
+          this.removeConnection(conn);
+        });
+      } else {
+        conn.on('error', (error) => {
+          log.error('Redis connection error', { role: this.role, error });
+          this.removeConnection(conn);
+        });
 
-      redis.on('close', () => {
-        this.removeConnection(redis);
-      });
+        conn.on('close', () => {
+          this.removeConnection(conn);
+        });
+      }
 
       // Wait for connection to be ready
       await redis.ping();
-      
+
+      if (this.closed) {
+        redis.disconnect();
+        return null;
+      }
+
       return redis;
     } catch (error) {
-      console.error('Failed to create Redis connection:', error);
+      log.error('Failed to create Redis connection', { role: this.role, error });
+      // Stop ioredis from reconnecting a connection the pool never adopted
+      redis?.disconnect();
       return null;
     } finally {
       this.creating--;
     }
   }
 
-  private removeConnection(redis: Redis): void {
-    // Remove from all collections
+  private removeConnection(redis: RedisClient): void {
     const poolIndex = this.pool.indexOf(redis);
-    if (poolIndex > -1) {
-      this.pool.splice(poolIndex, 1);
+    if (poolIndex === -1) {
+      // Already removed (error and close both fire for a broken connection)
+      return;
     }
-    
+    this.pool.splice(poolIndex, 1);
+
     const availableIndex = this.available.indexOf(redis);
     if (availableIndex > -1) {
       this.available.splice(availableIndex, 1);
     }
-    
+
     this.inUse.delete(redis);
-    
+    this.lastReleasedAt.delete(redis);
+
     // Try to disconnect gracefully
     redis.disconnect();
+
+    this.replenish();
+  }
+
+  /**
+   * Open a replacement connection when callers are queued or the pool has
+   * dropped below its minimum
+   */
+  private replenish(): void {
+    if (this.closed) {
+      return;
+    }
+
+    const size = this.pool.length + this.creating;
+    const needed = Math.max(this.waiters.length > 0 ? 1 : 0, this.config.minConnections - size);
+    for (let i = 0; i < needed && this.pool.length + this.creating < this.config.maxConnections; i++) {
+      this.createConnection().then(conn => {
+        if (conn) {
+          this.pool.push(conn);
+          this.makeAvailable(conn);
+        }
+      });
+    }
+  }
+
+  /**
+   * Hand a free connection to the longest waiting caller, or park it
+   */
+  private makeAvailable(redis: RedisClient): void {
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      clearTimeout(waiter.timer);
+      this.inUse.add(redis);
+      this.recordAcquireDuration(waiter.enqueuedAt);
+      waiter.resolve(redis);
+      return;
+    }
+
+    this.lastReleasedAt.set(redis, Date.now());
+    this.available.push(redis);
   }
 
-  async acquire(): Promise<Redis> {
-    // If there's an available connection, use it
+  /**
+   * Close connections idle for longer than idleTimeoutMs, oldest first,
+   * without going below minConnections
+   */
+  private evictIdleConnections(): void {
+    const cutoff = Date.now() - this.config.idleTimeoutMs;
+
+    while (this.available.length > 0 && this.pool.length > this.config.minConnections) {
+      const oldest = this.available[0];
+      if ((this.lastReleasedAt.get(oldest) ?? 0) > cutoff) {
+        break;
+      }
+
+      this.available.shift();
+      this.pool.splice(this.pool.indexOf(oldest), 1);
+      this.lastReleasedAt.delete(oldest);
+      oldest.quit().catch(() => oldest.disconnect());
+      metrics.incrementCounter(MetricNames.POOL_CONNECTIONS_EVICTED, 1, { role: this.role });
+    }
+  }
+
+  private recordAcquireDuration(startedAt: number): void {
+    metrics.recordHistogram(MetricNames.POOL_ACQUIRE_DURATION, Date.now() - startedAt, { role: this.role });
+  }
+
+  async acquire(): Promise<RedisClient> {
+    if (this.closed) {
+      throw new ConnectionPoolError('Connection pool is shut down', 'POOL_SHUTDOWN');
+    }
+
+    const startedAt = Date.now();
+
+    // If there's an available connection, use the most recently released one
     if (this.available.length > 0) {
       const conn = this.available.pop()!;
+      this.lastReleasedAt.delete(conn);
       this.inUse.add(conn);
+      this.recordAcquireDuration(startedAt);
       return conn;
     }
 
@@ -124,54 +263,53 @@ export class RedisConnectionPool {
       if (newConn) {
         this.pool.push(newConn);
         this.inUse.add(newConn);
+        this.recordAcquireDuration(startedAt);
         return newConn;
       }
     }
 
-    // Wait for a connection to become available
-    return new Promise((resolve, reject) => {
-      const checkInterval = setInterval(() => {
-        if (this.available.length > 0) {
-          clearInterval(checkInterval);
-          const conn = this.available.pop()!;
-          this.inUse.add(conn);
-          resolve(conn);
-        }
-      }, 10);
+    if (this.waiters.length >= this.config.maxWaitQueue) {
+      metrics.incrementCounter(MetricNames.POOL_QUEUE_REJECTED, 1, { role: this.role });
+      throw new ConnectionPoolError('Connection pool wait queue is full', 'QUEUE_FULL');
+    }
 
-      // Timeout after connectionTimeoutMs
-      setTimeout(() => {
-        clearInterval(checkInterval);
-        reject(new Error('Connection pool timeout - no available connections'));
-      }, this.config.connectionTimeoutMs);
+    // Wait for a connection to be released
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = {
+        resolve,
+        reject,
+        enqueuedAt: startedAt,
+        timer: setTimeout(() => {
+          const index = this.waiters.indexOf(waiter);
+          if (index > -1) {
+            this.waiters.splice(index, 1);
+          }
+          metrics.incrementCounter(MetricNames.POOL_ACQUIRE_TIMEOUT, 1, { role: this.role });
+          reject(new ConnectionPoolError('Connection pool timeout - no available connections', 'ACQUIRE_TIMEOUT'));
+        }, this.config.connectionTimeoutMs),
+      };
+      this.waiters.push(waiter);
     });
   }
 
-  release(redis: Redis): void {
-    if (this.inUse.has(redis)) {
-      this.inUse.delete(redis);
-      
-      // Check if connection is still healthy
-      redis.ping().then(() => {
-        this.available.push(redis);
-      }).catch(() => {
-        // Connection is unhealthy, remove it
-        this.removeConnection(redis);
-        
-        // Create a new connection if we're below minimum
-        if (this.pool.length < this.config.minConnections) {
-          this.createConnection().then(conn => {
-            if (conn) {
-              this.pool.push(conn);
-              this.available.push(conn);
-            }
-          });
-        }
-      });
+  release(redis: RedisClient): void {
+    if (!this.inUse.delete(redis)) {
+      return;
     }
+
+    // Broken connections are removed by their error/close handlers; only
+    // check the status we already have instead of a round trip.
+    // Failover-aware connections that are reconnecting stay in the pool.
+    const usable = redis.status === 'ready' || (this.failoverAware && redis.status !== 'end');
+    if (this.closed || !usable) {
+      this.removeConnection(redis);
+      return;
+    }
+
+    this.makeAvailable(redis);
   }
 
-  async execute<T>(operation: (redis: Redis) => Promise<T>): Promise<T> {
+  async execute<T>(operation: (redis: RedisClient) => Promise<T>): Promise<T> {
     const redis = await this.acquire();
     try {
       return await operation(redis);
@@ -181,21 +319,33 @@ export class RedisConnectionPool {
   }
 
   async shutdown(): Promise<void> {
-    console.log('Shutting down Redis connection pool...');
-    
-    // Close all connections
-    const promises = this.pool.map(redis => redis.quit());
-    
-    try {
-      await Promise.all(promises);
-      console.log('Redis connection pool shut down successfully');
-    } catch (error) {
-      console.error('Error shutting down connection pool:', error);
+    log.info('Shutting down Redis connection pool', { role: this.role });
+    this.closed = true;
+
+    if (this.evictionTimer) {
+      clearInterval(this.evictionTimer);
+      this.evictionTimer = null;
     }
-    
+
+    // Fail queued callers rather than leave them waiting for their timeout
+    this.waiters.splice(0).forEach(waiter => {
+      clearTimeout(waiter.timer);
+      waiter.reject(new ConnectionPoolError('Connection pool is shut down', 'POOL_SHUTDOWN'));
+    });
+
+    // Close all connections
+    const connections = this.pool;
     this.pool = [];
     this.available = [];
     this.inUse.clear();
+    this.lastReleasedAt.clear();
+
+    try {
+      await Promise.all(connections.map(redis => redis.quit()));
+      log.info('Redis connection pool shut down', { role: this.role });
+    } catch (error) {
+      log.error('Error shutting down connection pool', { role: this.role, error });
+    }
   }
 
   getStats() {
@@ -204,7 +354,26 @@ export class RedisConnectionPool {
       available: this.available.length,
       inUse: this.inUse.size,
       creating: this.creating,
+      waiting: this.waiters.length,
+      role: this.role,
       maxConnections: this.config.maxConnections,
+      maxWaitQueue: this.config.maxWaitQueue,
     };
   }
-} 
\ No newline at end of file
+}
+const poolConfig: Partial<PoolConfig> = {
+  minConnections: parseInt(process.env.REDIS_MIN_CONNECTIONS || '5'),
+  maxConnections: parseInt(process.env.REDIS_MAX_CONNECTIONS || '50'),
+  idleTimeoutMs: parseInt(process.env.REDIS_IDLE_TIMEOUT_MS || '30000'),
+  connectionTimeoutMs: parseInt(process.env.REDIS_ACQUIRE_TIMEOUT_MS || '5000'),
+  maxWaitQueue: parseInt(process.env.REDIS_MAX_WAIT_QUEUE || '1000'),
+};
+
+// Shared pool instance for DragonflyDB
+export const redisPool = new RedisConnectionPool(getRedisConfig(), poolConfig);
+
+// Pool for cache reads: replicas when REDIS_READ_FROM_REPLICAS is set in
+// Sentinel or Cluster mode, otherwise the primary pool
+export const redisReadPool = getRedisConfig().readFromReplicas && isFailoverAware(getRedisConfig())
+  ? new RedisConnectionPool(getRedisConfig(), poolConfig, 'slave')
+  : redisPool;
@@ -1,4 +1,7 @@
-import Redis from 'ioredis';
+import { createRedisClient, getRedisConfig, RedisClient } from './redisConfig.js';
+import { logger } from './logger.js';
+
+const log = logger.child({ module: 'dragonfly' });
 
 export class DragonflyError extends Error {
   constructor(message: string) {
@@ -8,29 +11,27 @@ export class DragonflyError extends Error {
 }
 
 class DragonflyClient {
-  private redis: Redis;
+  private redis: RedisClient;
   private isConnected: boolean = false;
 
   constructor() {
-    const dragonflyUrl = process.env.DRAGONFLY_URL || 'redis://localhost:6379';
-    
-    this.redis = new Redis(dragonflyUrl, {
+    this.redis = createRedisClient(getRedisConfig(), {
       maxRetriesPerRequest: 3,
       lazyConnect: true,
     });
 
     this.redis.on('connect', () => {
-      console.log('Connected to DragonflyDB');
+      log.info('Connected to DragonflyDB');
       this.isConnected = true;
     });
 
     this.redis.on('error', (error) => {
-      console.error('DragonflyDB connection error:', error);
+      log.error('DragonflyDB connection error', { error });
       this.isConnected = false;
     });
 
     this.redis.on('close', () => {
-      console.log('DragonflyDB connection closed');
+      log.info('DragonflyDB connection closed');
       this.isConnected = false;
     });
   }
@@ -44,14 +45,14 @@ class DragonflyClient {
       const token = await this.redis.get(cacheKey);
       
       if (token) {
-        console.log(`Cache hit for user ${userId}`);
+        log.debug('Token cache hit', { userId });
         return token;
       }
       
-      console.log(`Cache miss for user ${userId}`);
+      log.debug('Token cache miss', { userId });
       return null;
     } catch (error) {
-      console.error('Error getting token from cache:', error);
+      log.error('Error getting token from cache', { error });
       throw new DragonflyError(`Failed to get token from cache: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
@@ -63,9 +64,9 @@ class DragonflyClient {
     try {
       const cacheKey = `tinybird_token:${userId}`;
       await this.redis.setex(cacheKey, ttlInSeconds, token);
-      console.log(`Token cached for user ${userId} with TTL ${ttlInSeconds} seconds`);
+      log.debug('Token cached', { userId, ttlSeconds: ttlInSeconds });
     } catch (error) {
-      console.error('Error setting token in cache:', error);
+      log.error('Error setting token in cache', { error });
       throw new DragonflyError(`Failed to set token in cache: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
@@ -77,9 +78,9 @@ class DragonflyClient {
     try {
       const cacheKey = `tinybird_token:${userId}`;
       await this.redis.del(cacheKey);
-      console.log(`Token deleted from cache for user ${userId}`);
+      log.debug('Token deleted from cache', { userId });
     } catch (error) {
-      console.error('Error deleting token from cache:', error);
+      log.error('Error deleting token from cache', { error });
       throw new DragonflyError(`Failed to delete token from cache: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
@@ -97,9 +98,9 @@ class DragonflyClient {
   async disconnect(): Promise<void> {
     try {
       await this.redis.quit();
-      console.log('DragonflyDB connection closed gracefully');
+      log.info('DragonflyDB connection closed gracefully');
     } catch (error) {
-      console.error('Error closing DragonflyDB connection:', error);
+      log.error('Error closing DragonflyDB connection', { error });
     }
   }
 
@@ -0,0 +1,374 @@
+import { Context } from 'hono';
+import { getPipe, getPipeTrucks, PipeDefinition } from './pipeRegistry.js';
+import { getTruckAccessDetails } from './truckFetcher.js';
+import { getTruckScopedTinybirdToken, getWindowedTinybirdToken } from './tokenService.js';
+import { getTinybirdUpstream, UpstreamError } from './tinybirdUpstream.js';
+import { assertTruckAccess } from './routePolicy.js';
+import { formatTinybirdDateTime } from './accessWindow.js';
+import { ApiParameterError } from './openapi.js';
+import { parseTimestamp, TruckAccess } from './planetscale.js';
+import { canonicalRegistrationNo } from './registrationNo.js';
+import { metrics, MetricNames } from './metrics.js';
+
+/**
+ * The fleet API: trucks, their latest position and their history as
+ * normalized JSON, read through the same tokens and RLS as the pipe proxy.
+ * Clients never see pipe names or Tinybird's response envelope.
+ */
+
+/**
+ * Which pipes back the fleet API and where positions are in their rows,
+ * read from the environment
+ */
+export interface FleetApiConfig {
+  locationPipe: string;
+  // Must define a time window and return rows oldest first
+  historyPipe: string;
+  // History pipe parameter capping the rows it returns
+  historyLimitParam: string;
+  // Row columns; the registration field defaults to the location pipe's first RLS parameter
+  registrationField: string;
+  latitudeField: string;
+  longitudeField: string;
+  timestampField: string;
+  speedField: string;
+  headingField: string;
+}
+
+export class FleetApiError extends Error {
+  constructor(message: string, public statusCode: number = 400, public code: string = 'FLEET_API_ERROR') {
+    super(message);
+    this.name = 'FleetApiError';
+  }
+}
+
+/**
+ * A truck the user has been granted
+ */
+export interface FleetTruck {
+  registrationNo: string;
+  accessLevel: string;
+  grantedAt: string; // ISO 8601
+  expiresAt: string | null;
+  // Whether the truck's access level grants its location and history
+  capabilities: { location: boolean; history: boolean };
+}
+
+/**
+ * A position report, whatever the backing pipe's column names
+ */
+export interface TruckPosition {
+  registrationNo: string;
+  latitude: number;
+  longitude: number;
+  recordedAt: string; // ISO 8601
+  speed: number | null;
+  heading: number | null;
+}
+
+export interface TruckPage {
+  trucks: FleetTruck[];
+  nextCursor: string | null;
+}
+
+export interface HistoryQuery {
+  from?: Date;
+  to?: Date;
+  limit: number;
+  cursor?: string;
+}
+
+export interface PositionHistory {
+  registrationNo: string;
+  from: string;
+  to: string;
+  positions: TruckPosition[];
+  nextCursor: string | null;
+}
+
+const DEFAULT_HISTORY_RANGE_MS = 24 * 3600 * 1000;
+const MAX_HISTORY_RANGE_MS = 31 * 24 * 3600 * 1000;
+
+/**
+ * Read and validate the fleet API settings, throwing FleetApiError on the
+ * first problem
+ */
+export function loadFleetApiConfig(env: NodeJS.ProcessEnv = process.env): FleetApiConfig {
+  const locationPipeName = env.FLEET_LOCATION_PIPE || 'truck_location_endpoint';
+  const historyPipeName = env.FLEET_HISTORY_PIPE || 'truck_history_endpoint';
+
+  const locationPipe = getPipe(locationPipeName);
+  if (!locationPipe) {
+    throw new FleetApiError(`FLEET_LOCATION_PIPE "${locationPipeName}" is not in the pipe registry`, 500, 'FLEET_API_NOT_CONFIGURED');
+  }
+  const historyPipe = getPipe(historyPipeName);
+  if (!historyPipe?.timeWindow) {
+    throw new FleetApiError(`FLEET_HISTORY_PIPE "${historyPipeName}" must be a registry pipe with a time window`, 500, 'FLEET_API_NOT_CONFIGURED');
+  }
+
+  return {
+    locationPipe: locationPipeName,
+    historyPipe: historyPipeName,
+    historyLimitParam: env.FLEET_HISTORY_LIMIT_PARAM || 'limit',
+    registrationField: env.FLEET_REGISTRATION_FIELD || locationPipe.rlsParams[0],
+    latitudeField: env.FLEET_LATITUDE_FIELD || 'latitude',
+    longitudeField: env.FLEET_LONGITUDE_FIELD || 'longitude',
+    timestampField: env.FLEET_TIMESTAMP_FIELD || 'timestamp',
+    speedField: env.FLEET_SPEED_FIELD || 'speed',
+    headingField: env.FLEET_HEADING_FIELD || 'heading',
+  };
+}
+
+let fleetApiConfig: FleetApiConfig | null = null;
+
+/**
+ * Get the fleet API settings, loading them from the environment on first use
+ */
+export function getFleetApiConfig(): FleetApiConfig {
+  if (!fleetApiConfig) {
+    fleetApiConfig = loadFleetApiConfig();
+  }
+  return fleetApiConfig;
+}
+
+function encodeCursor(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function decodeCursor(cursor: string): Record<string, unknown> {
+  try {
+    const value = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      return value;
+    }
+  } catch {
+    // Fall through
+  }
+  throw new ApiParameterError('"cursor" is not a valid cursor');
+}
+
+function toFleetTruck(access: TruckAccess, pipeTrucks: Map<string, string[]>, config: FleetApiConfig): FleetTruck {
+  const grants = (pipe: string) => pipeTrucks.get(pipe)?.includes(access.truck_registration_no) ?? false;
+  return {
+    registrationNo: access.truck_registration_no,
+    accessLevel: access.access_level,
+    grantedAt: access.granted_at.toISOString(),
+    expiresAt: access.expires_at?.toISOString() ?? null,
+    capabilities: { location: grants(config.locationPipe), history: grants(config.historyPipe) },
+  };
+}
+
+/**
+ * The user's trucks by registration number, a page at a time
+ */
+export async function listTrucks(userId: string, limit: number, cursor?: string): Promise<TruckPage> {
+  const config = getFleetApiConfig();
+  const truckAccess = await getTruckAccessDetails(userId);
+  const pipeTrucks = getPipeTrucks(truckAccess);
+
+  let after: string | undefined;
+  if (cursor) {
+    const { registrationNo } = decodeCursor(cursor);
+    if (typeof registrationNo !== 'string') {
+      throw new ApiParameterError('"cursor" is not a valid cursor');
+    }
+    after = registrationNo;
+  }
+
+  const remaining = [...truckAccess]
+    .sort((a, b) => a.truck_registration_no.localeCompare(b.truck_registration_no))
+    .filter(access => after === undefined || access.truck_registration_no > after);
+  const page = remaining.slice(0, limit);
+
+  return {
+    trucks: page.map(access => toFleetTruck(access, pipeTrucks, config)),
+    nextCursor: remaining.length > limit ? encodeCursor({ registrationNo: page[page.length - 1].truck_registration_no }) : null,
+  };
+}
+
+/**
+ * One of the user's trucks
+ * Throws FleetApiError (404) when the truck is not granted to the user
+ */
+export async function getTruck(userId: string, registrationNo: string): Promise<FleetTruck> {
+  const truckAccess = await getTruckAccessDetails(userId);
+  const access = truckAccess.find(grant => grant.truck_registration_no === registrationNo);
+  if (!access) {
+    throw new FleetApiError(`Truck ${registrationNo} not found`, 404, 'TRUCK_NOT_FOUND');
+  }
+  return toFleetTruck(access, getPipeTrucks(truckAccess), getFleetApiConfig());
+}
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+/**
+ * Normalize a pipe row, or null when it lacks a registration number,
+ * coordinates or timestamp
+ */
+function toTruckPosition(row: Record<string, unknown>, config: FleetApiConfig): TruckPosition | null {
+  const registrationNo = row[config.registrationField];
+  const latitude = toNumber(row[config.latitudeField]);
+  const longitude = toNumber(row[config.longitudeField]);
+  const recordedAt = parseTimestamp(row[config.timestampField]);
+  if ((typeof registrationNo !== 'string' && typeof registrationNo !== 'number') ||
+      latitude === null || longitude === null || !recordedAt) {
+    return null;
+  }
+
+  return {
+    registrationNo: canonicalRegistrationNo(String(registrationNo)),
+    latitude,
+    longitude,
+    recordedAt: recordedAt.toISOString(),
+    speed: toNumber(row[config.speedField]),
+    heading: toNumber(row[config.headingField]),
+  };
+}
+
+/**
+ * Query a pipe's JSON endpoint and return its rows. Sets `upstreamStatus`
+ * on the context once Tinybird has answered.
+ * Throws UpstreamError when Tinybird fails or answers with an error
+ */
+async function queryPipe(c: Context, pipe: PipeDefinition, params: URLSearchParams, token: string): Promise<Record<string, unknown>[]> {
+  const tinybirdTimer = metrics.startTimer(MetricNames.TINYBIRD_REQUEST_DURATION, { pipe: pipe.name });
+  let response;
+  try {
+    response = await getTinybirdUpstream().fetchPipe(pipe, params, token);
+  } catch (error) {
+    tinybirdTimer();
+    metrics.incrementCounter(MetricNames.TINYBIRD_REQUEST_ERROR, 1, { pipe: pipe.name });
+    throw error;
+  }
+
+  tinybirdTimer();
+  metrics.incrementCounter(MetricNames.TINYBIRD_REQUEST_TOTAL, 1, { pipe: pipe.name, status: String(response.status), method: 'GET' });
+  c.set('upstreamStatus', response.status);
+
+  if (response.status !== 200) {
+    await response.body?.cancel();
+    throw new UpstreamError(`Tinybird responded with ${response.status}`);
+  }
+
+  const result = await new Response(response.body).json() as { data?: Record<string, unknown>[] };
+  return result.data ?? [];
+}
+
+/**
+ * The most recent position of one of the user's trucks
+ * Throws FleetApiError (404) when the truck is not granted or has no
+ * position, TruckAccessDeniedError when its access level does not grant
+ * the location pipe
+ */
+export async function getLatestPosition(c: Context, userId: string, registrationNo: string): Promise<TruckPosition> {
+  const config = getFleetApiConfig();
+  await getTruck(userId, registrationNo);
+  await assertTruckAccess(userId, config.locationPipe, [registrationNo]);
+  c.set('requestedTrucks', [registrationNo]);
+
+  // Tinybird only returns the truck's rows with a token scoped to it; the
+  // user's token would override the RLS params with all their trucks
+  const pipe = getPipe(config.locationPipe)!;
+  const params = new URLSearchParams();
+  pipe.rlsParams.forEach(param => params.set(param, registrationNo));
+  const token = await getTruckScopedTinybirdToken(userId, pipe, [registrationNo]);
+  const rows = await queryPipe(c, pipe, params, token);
+
+  const latest = rows
+    .map(row => toTruckPosition(row, config))
+    .filter((position): position is TruckPosition => position?.registrationNo === registrationNo)
+    .reduce<TruckPosition | null>((best, position) => (!best || position.recordedAt > best.recordedAt ? position : best), null);
+
+  if (!latest) {
+    throw new FleetApiError(`No position has been reported for ${registrationNo}`, 404, 'POSITION_NOT_FOUND');
+  }
+  return latest;
+}
+
+function startOfSecond(time: number): number {
+  return Math.floor(time / 1000) * 1000;
+}
+
+/**
+ * A truck's positions between `from` and `to` (the last 24 hours by
+ * default), oldest first, a page at a time. The range is clamped to the
+ * truck's access window by a per-request token, as for history pipe
+ * requests through the proxy. Each page fetches at most one row more than
+ * it returns (plus the rows it skips), so the pipe must return rows oldest
+ * first.
+ *
+ * Tinybird DateTime parameters have second precision, so cursors hold the
+ * last returned timestamp and how many rows from the start of its second
+ * were consumed; the next page starts at that second and skips them. Pages
+ * stay stable while new positions arrive.
+ * Throws FleetApiError, ApiParameterError, TruckAccessDeniedError or
+ * AccessWindowError
+ */
+export async function getPositionHistory(c: Context, userId: string, registrationNo: string, query: HistoryQuery): Promise<PositionHistory> {
+  const config = getFleetApiConfig();
+  const pipe = getPipe(config.historyPipe)!;
+  await getTruck(userId, registrationNo);
+  await assertTruckAccess(userId, pipe.name, [registrationNo]);
+
+  const to = query.to ?? new Date();
+  const from = query.from ?? new Date(to.getTime() - DEFAULT_HISTORY_RANGE_MS);
+  if (from >= to) {
+    throw new ApiParameterError('"from" must be before "to"');
+  }
+  if (to.getTime() - from.getTime() > MAX_HISTORY_RANGE_MS) {
+    throw new ApiParameterError('"from" and "to" may be at most 31 days apart');
+  }
+
+  let after: { recordedAt: number; seen: number } | undefined;
+  if (query.cursor) {
+    const { recordedAt, seen } = decodeCursor(query.cursor);
+    const time = typeof recordedAt === 'string' ? parseTimestamp(recordedAt)?.getTime() : undefined;
+    if (time === undefined || time < from.getTime() || !Number.isInteger(seen) || (seen as number) < 1) {
+      throw new ApiParameterError('"cursor" is not a valid cursor');
+    }
+    after = { recordedAt: time, seen: seen as number };
+  }
+
+  const start = new Date(startOfSecond(after?.recordedAt ?? from.getTime()));
+  const skip = after?.seen ?? 0;
+  const params = new URLSearchParams();
+  pipe.rlsParams.forEach(param => params.set(param, registrationNo));
+  params.set(pipe.timeWindow!.startParam, formatTinybirdDateTime(start));
+  params.set(pipe.timeWindow!.endParam, formatTinybirdDateTime(to));
+  params.set(config.historyLimitParam, String(skip + query.limit + 1));
+
+  const token = await getWindowedTinybirdToken(userId, pipe, [registrationNo], params);
+  c.set('requestedTrucks', [registrationNo]);
+  const rows = await queryPipe(c, pipe, params, token);
+  const rowTimes = rows.map(row => parseTimestamp(row[config.timestampField])?.getTime());
+
+  const positions = rows
+    .map((row, index) => ({ position: toTruckPosition(row, config), index }))
+    .filter((entry): entry is { position: TruckPosition; index: number } =>
+      entry.index >= skip && entry.position?.registrationNo === registrationNo)
+    .map(entry => ({ ...entry, time: Date.parse(entry.position.recordedAt) }))
+    .filter(({ time }) => time >= from.getTime() && time <= to.getTime());
+
+  const page = positions.slice(0, query.limit);
+  let nextCursor: string | null = null;
+  if (page.length > 0 && (positions.length > query.limit || rows.length > skip + query.limit)) {
+    // Rows consumed from the start of the last position's second, skipped rows included
+    const last = page[page.length - 1];
+    const firstInSecond = rowTimes.findIndex(time => time !== undefined && time >= startOfSecond(last.time));
+    nextCursor = encodeCursor({ recordedAt: last.position.recordedAt, seen: last.index + 1 - firstInSecond });
+  }
+
+  return {
+    registrationNo,
+    from: from.toISOString(),
+    to: to.toISOString(),
+    positions: page.map(({ position }) => position),
+    nextCursor,
+  };
+}
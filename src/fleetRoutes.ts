@@ -0,0 +1,317 @@
+import { Context, Hono, Next } from 'hono';
+import { AuthUser } from './auth.js';
+import {
+  FleetApiConfig,
+  FleetApiError,
+  getFleetApiConfig,
+  getLatestPosition,
+  getPositionHistory,
+  getTruck,
+  listTrucks,
+} from './fleetApi.js';
+import { ApiOperation, ApiParameter, ApiParameterError, buildOpenApiDocument, JsonSchema, parseQueryParameters } from './openapi.js';
+import { RoutePolicyError, TruckAccessDeniedError } from './routePolicy.js';
+import { AccessWindowError } from './accessWindow.js';
+import { TinybirdError } from './tinybird.js';
+import { UpstreamError } from './tinybirdUpstream.js';
+import { canonicalRegistrationNo } from './registrationNo.js';
+import { rateLimitMiddleware } from './rateLimit.js';
+import { auditResponse } from './audit.js';
+import { logger } from './logger.js';
+
+const log = logger.child({ module: 'fleetRoutes' });
+
+type FleetEnv = { Variables: { user: AuthUser; requestedTrucks: string[] } };
+
+/**
+ * A fleet API route: its OpenAPI declaration and its handler
+ */
+interface FleetRoute extends ApiOperation {
+  // Pipe the route reads through. Its per-pipe rate limit applies, and
+  // requests that reach Tinybird are audited like proxied pipe requests.
+  pipe?: keyof Pick<FleetApiConfig, 'locationPipe' | 'historyPipe'>;
+  handler: (c: Context<FleetEnv>, operation: ApiOperation) => Promise<Response>;
+}
+
+const registrationNoParameter: ApiParameter = {
+  name: 'registrationNo',
+  in: 'path',
+  description: 'Registration number in any common formatting (`HR05G5555`, `HR-05-G-5555`)',
+  schema: { type: 'string', maxLength: 32, example: 'HR05G5555' },
+};
+
+const cursorParameter: ApiParameter = {
+  name: 'cursor',
+  in: 'query',
+  description: '`nextCursor` from the previous page',
+  schema: { type: 'string', maxLength: 512 },
+};
+
+const errorResponses = {
+  400: { description: 'Invalid query parameter', schema: 'Error' },
+  401: { description: 'Missing, invalid or expired JWT', schema: 'Error' },
+  429: { description: 'Rate limit or daily quota exceeded', schema: 'Error' },
+};
+
+const upstreamErrorResponses = {
+  502: { description: 'Tinybird could not be reached or answered with an error', schema: 'Error' },
+  503: { description: 'Tinybird is unavailable in every region', schema: 'Error' },
+  504: { description: 'Tinybird did not respond in time', schema: 'Error' },
+};
+
+/**
+ * Registration number from the path. Stored numbers that are not valid
+ * plates are listed compacted, so they are looked up the same way.
+ */
+function getRegistrationNo(c: Context<FleetEnv>): string {
+  return canonicalRegistrationNo(c.req.param('registrationNo') ?? '');
+}
+
+/**
+ * The fleet API routes, in registration order. The OpenAPI document is
+ * generated from these declarations.
+ */
+export const fleetOperations: FleetRoute[] = [
+  {
+    method: 'get',
+    path: '/trucks',
+    operationId: 'listTrucks',
+    summary: 'List your trucks',
+    description: 'Trucks granted to the caller, ordered by registration number.',
+    tags: ['Trucks'],
+    parameters: [
+      { name: 'limit', in: 'query', description: 'Trucks per page', schema: { type: 'integer', minimum: 1, maximum: 500, default: 100 } },
+      cursorParameter,
+    ],
+    responses: { 200: { description: 'A page of trucks', schema: 'TruckList' }, ...errorResponses },
+    handler: async (c, operation) => {
+      const { limit, cursor } = parseQueryParameters(operation, new URL(c.req.url).searchParams) as { limit: number; cursor?: string };
+      const { trucks, nextCursor } = await listTrucks(c.get('user').userId, limit, cursor);
+      return c.json({
+        trucks,
+        count: trucks.length,
+        nextCursor,
+        timestamp: new Date().toISOString()
+      });
+    },
+  },
+  {
+    method: 'get',
+    path: '/trucks/:registrationNo',
+    operationId: 'getTruck',
+    summary: 'Get one of your trucks',
+    tags: ['Trucks'],
+    parameters: [registrationNoParameter],
+    responses: {
+      200: { description: 'The truck', schema: 'TruckResponse' },
+      ...errorResponses,
+      404: { description: 'The truck is not granted to the caller', schema: 'Error' },
+    },
+    handler: async (c) => {
+      const truck = await getTruck(c.get('user').userId, getRegistrationNo(c));
+      return c.json({ truck });
+    },
+  },
+  {
+    method: 'get',
+    path: '/trucks/:registrationNo/location',
+    operationId: 'getTruckLocation',
+    summary: "Get a truck's latest position",
+    tags: ['Positions'],
+    parameters: [registrationNoParameter],
+    pipe: 'locationPipe',
+    responses: {
+      200: { description: 'The latest reported position', schema: 'PositionResponse' },
+      ...errorResponses,
+      403: { description: "The truck's access level does not grant its location", schema: 'Error' },
+      404: { description: 'The truck is not granted to the caller, or has not reported a position', schema: 'Error' },
+      ...upstreamErrorResponses,
+    },
+    handler: async (c) => {
+      const position = await getLatestPosition(c, c.get('user').userId, getRegistrationNo(c));
+      return c.json({ position });
+    },
+  },
+  {
+    method: 'get',
+    path: '/trucks/:registrationNo/history',
+    operationId: 'getTruckHistory',
+    summary: "Get a truck's position history",
+    description: 'Positions oldest first. The range is limited to 31 days and clamped to the period the truck has been granted to the caller.',
+    tags: ['Positions'],
+    parameters: [
+      registrationNoParameter,
+      { name: 'from', in: 'query', description: 'Start of the range (ISO 8601); 24 hours before `to` by default', schema: { type: 'string', format: 'date-time' } },
+      { name: 'to', in: 'query', description: 'End of the range (ISO 8601); now by default', schema: { type: 'string', format: 'date-time' } },
+      { name: 'limit', in: 'query', description: 'Positions per page', schema: { type: 'integer', minimum: 1, maximum: 5000, default: 1000 } },
+      cursorParameter,
+    ],
+    pipe: 'historyPipe',
+    responses: {
+      200: { description: 'A page of positions', schema: 'PositionHistory' },
+      ...errorResponses,
+      403: { description: "The truck's access level does not grant its history, or the range is outside the truck's access window", schema: 'Error' },
+      404: { description: 'The truck is not granted to the caller', schema: 'Error' },
+      ...upstreamErrorResponses,
+    },
+    handler: async (c, operation) => {
+      const query = parseQueryParameters(operation, new URL(c.req.url).searchParams) as { from?: Date; to?: Date; limit: number; cursor?: string };
+      const history = await getPositionHistory(c, c.get('user').userId, getRegistrationNo(c), query);
+      return c.json({
+        ...history,
+        count: history.positions.length,
+        timestamp: new Date().toISOString()
+      });
+    },
+  },
+];
+
+const timestamp: JsonSchema = { type: 'string', format: 'date-time' };
+
+const fleetSchemas: Record<string, JsonSchema> = {
+  Truck: {
+    type: 'object',
+    required: ['registrationNo', 'accessLevel', 'grantedAt', 'expiresAt', 'capabilities'],
+    properties: {
+      registrationNo: { type: 'string', description: 'Canonical registration number', example: 'HR05G5555' },
+      accessLevel: { type: 'string', enum: ['read', 'write', 'admin'] },
+      grantedAt: timestamp,
+      expiresAt: { ...timestamp, type: ['string', 'null'] },
+      capabilities: {
+        type: 'object',
+        required: ['location', 'history'],
+        properties: {
+          location: { type: 'boolean', description: 'The access level grants the truck\'s latest position' },
+          history: { type: 'boolean', description: 'The access level grants the truck\'s position history' },
+        },
+      },
+    },
+  },
+  Position: {
+    type: 'object',
+    required: ['registrationNo', 'latitude', 'longitude', 'recordedAt', 'speed', 'heading'],
+    properties: {
+      registrationNo: { type: 'string', example: 'HR05G5555' },
+      latitude: { type: 'number', minimum: -90, maximum: 90 },
+      longitude: { type: 'number', minimum: -180, maximum: 180 },
+      recordedAt: timestamp,
+      speed: { type: ['number', 'null'], description: 'As reported by the tracker' },
+      heading: { type: ['number', 'null'], description: 'Degrees, as reported by the tracker' },
+    },
+  },
+  TruckList: {
+    type: 'object',
+    required: ['trucks', 'count', 'nextCursor', 'timestamp'],
+    properties: {
+      trucks: { type: 'array', items: { $ref: '#/components/schemas/Truck' } },
+      count: { type: 'integer' },
+      nextCursor: { type: ['string', 'null'], description: 'Pass as `cursor` for the next page; null on the last page' },
+      timestamp,
+    },
+  },
+  TruckResponse: {
+    type: 'object',
+    required: ['truck'],
+    properties: { truck: { $ref: '#/components/schemas/Truck' } },
+  },
+  PositionResponse: {
+    type: 'object',
+    required: ['position'],
+    properties: { position: { $ref: '#/components/schemas/Position' } },
+  },
+  PositionHistory: {
+    type: 'object',
+    required: ['registrationNo', 'from', 'to', 'positions', 'count', 'nextCursor', 'timestamp'],
+    properties: {
+      registrationNo: { type: 'string', example: 'HR05G5555' },
+      from: timestamp,
+      to: timestamp,
+      positions: { type: 'array', items: { $ref: '#/components/schemas/Position' } },
+      count: { type: 'integer' },
+      nextCursor: { type: ['string', 'null'], description: 'Pass as `cursor`, with the same `from` and `to`, for the next page; null on the last page' },
+      timestamp,
+    },
+  },
+  Error: {
+    type: 'object',
+    required: ['error'],
+    properties: {
+      error: { type: 'string' },
+      code: { type: 'string', example: 'TRUCK_NOT_FOUND' },
+      unauthorizedTrucks: { type: 'array', items: { type: 'string' } },
+      timestamp,
+    },
+  },
+};
+
+let openApiDocument: ReturnType<typeof buildOpenApiDocument> | null = null;
+
+/**
+ * The fleet API's OpenAPI document, built on first use
+ */
+export function getFleetOpenApiDocument() {
+  if (!openApiDocument) {
+    openApiDocument = buildOpenApiDocument({
+      title: 'Porteight Fleet API',
+      version: '1.0.0',
+      description: 'Trucks, latest positions and position history for the authenticated user.',
+    }, fleetOperations, fleetSchemas);
+  }
+  return openApiDocument;
+}
+
+function errorResponse(c: Context, error: unknown): Response {
+  if (error instanceof FleetApiError || error instanceof ApiParameterError ||
+      error instanceof RoutePolicyError || error instanceof AccessWindowError) {
+    return c.json({
+      error: error.message,
+      code: error.code,
+      ...(error instanceof TruckAccessDeniedError && { unauthorizedTrucks: error.unauthorizedTrucks }),
+      timestamp: new Date().toISOString()
+    }, error.statusCode as any);
+  }
+  if (error instanceof UpstreamError) {
+    if (error.retryAfterMs !== undefined) {
+      c.header('Retry-After', String(Math.max(1, Math.ceil(error.retryAfterMs / 1000))));
+    }
+    return c.json({
+      error: error.message,
+      code: error.code,
+      timestamp: new Date().toISOString()
+    }, error.statusCode as any);
+  }
+  if (error instanceof TinybirdError) {
+    return c.json({ error: error.message }, (error.statusCode || 500) as any);
+  }
+
+  log.error('Fleet API request failed', { error });
+  return c.json({ error: 'Internal server error' }, 500 as any);
+}
+
+/**
+ * The fleet API. Expects `user` on the context (authMiddleware).
+ */
+export const fleetRoutes = new Hono<FleetEnv>();
+
+fleetOperations.forEach(operation => {
+  // Pipe-backed routes share the pipe's rate limit bucket
+  const matchRoute = async (c: Context, next: Next) => {
+    if (operation.pipe) {
+      c.set('route', { pipe: getFleetApiConfig()[operation.pipe], format: 'json' });
+    }
+    await next();
+  };
+
+  fleetRoutes.on(operation.method.toUpperCase(), operation.path, matchRoute, rateLimitMiddleware, async (c) => {
+    const startedAt = Date.now();
+    let response: Response;
+    try {
+      response = await operation.handler(c, operation);
+    } catch (error) {
+      response = errorResponse(c, error);
+    }
+
+    // Audited once the truck has passed the access checks, as the proxy does
+    return c.get('requestedTrucks') ? auditResponse(c, response, startedAt) : response;
+  });
+});
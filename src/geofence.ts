@@ -0,0 +1,290 @@
+import { lookup as dnsLookup } from 'node:dns';
+import { BlockList, isIP, LookupFunction } from 'node:net';
+import { AuthUser, getUserOrgId } from './auth.js';
+
+/**
+ * Geofences: polygons and circles around depots, ports and customer sites,
+ * owned by a user or by their organisation. This module holds the model,
+ * request validation and geometry; evaluation lives in geofenceEngine.ts.
+ */
+
+export type GeofenceOwnerType = 'user' | 'org';
+
+export interface LatLng {
+  latitude: number;
+  longitude: number;
+}
+
+export type GeofenceGeometry =
+  | { shape: 'polygon'; points: LatLng[] }
+  | { shape: 'circle'; center: LatLng; radiusMeters: number };
+
+export interface Geofence {
+  id: string;
+  ownerType: GeofenceOwnerType;
+  ownerId: string;
+  // Evaluated against this user's truck access
+  createdBy: string;
+  name: string;
+  geometry: GeofenceGeometry;
+  // Emit dwell_exceeded once a truck has been inside this long
+  dwellSeconds: number | null;
+  webhookUrl: string | null;
+  webhookSecret: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * A validated create or update request
+ */
+export interface GeofenceInput {
+  ownerType: GeofenceOwnerType;
+  name: string;
+  geometry: GeofenceGeometry;
+  dwellSeconds: number | null;
+  webhookUrl: string | null;
+}
+
+export class GeofenceError extends Error {
+  constructor(message: string, public statusCode: number = 400, public code: string = 'INVALID_GEOFENCE') {
+    super(message);
+    this.name = 'GeofenceError';
+  }
+}
+
+const MAX_POLYGON_POINTS = 1000;
+const MIN_RADIUS_METERS = 10;
+const MAX_RADIUS_METERS = 100000;
+const MIN_DWELL_SECONDS = 60;
+const MAX_DWELL_SECONDS = 7 * 24 * 3600;
+const EARTH_RADIUS_METERS = 6371008.8;
+
+function parseLatLng(value: unknown, field: string): LatLng {
+  const { latitude, longitude } = (value ?? {}) as Record<string, unknown>;
+  if (typeof latitude !== 'number' || typeof longitude !== 'number' ||
+      !(latitude >= -90 && latitude <= 90) || !(longitude >= -180 && longitude <= 180)) {
+    throw new GeofenceError(`"${field}" must have a numeric "latitude" (-90 to 90) and "longitude" (-180 to 180)`);
+  }
+  return { latitude, longitude };
+}
+
+function parseGeometry(body: Record<string, unknown>): GeofenceGeometry {
+  if (body.shape === 'circle') {
+    const radiusMeters = body.radiusMeters;
+    if (typeof radiusMeters !== 'number' || !(radiusMeters >= MIN_RADIUS_METERS && radiusMeters <= MAX_RADIUS_METERS)) {
+      throw new GeofenceError(`"radiusMeters" must be between ${MIN_RADIUS_METERS} and ${MAX_RADIUS_METERS}`);
+    }
+    return { shape: 'circle', center: parseLatLng(body.center, 'center'), radiusMeters };
+  }
+
+  if (body.shape === 'polygon') {
+    if (!Array.isArray(body.points) || body.points.length < 3 || body.points.length > MAX_POLYGON_POINTS) {
+      throw new GeofenceError(`"points" must be an array of 3 to ${MAX_POLYGON_POINTS} positions`);
+    }
+    const points = body.points.map((point, index) => parseLatLng(point, `points[${index}]`));
+
+    // A closing point equal to the first is implied
+    const first = points[0];
+    const last = points[points.length - 1];
+    if (points.length > 3 && first.latitude === last.latitude && first.longitude === last.longitude) {
+      points.pop();
+    }
+    return { shape: 'polygon', points };
+  }
+
+  throw new GeofenceError('"shape" must be "polygon" or "circle"');
+}
+
+/**
+ * Webhook URLs must be https (http is allowed in development) and may not
+ * point at the proxy's own network. Host names are checked again when
+ * delivering, see lookupPublicAddress.
+ */
+function parseWebhookUrl(value: unknown): string | null {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  if (typeof value !== 'string' || value.length > 2048) {
+    throw new GeofenceError('"webhookUrl" must be a URL of at most 2048 characters');
+  }
+
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new GeofenceError('"webhookUrl" must be a valid URL');
+  }
+
+  const allowedProtocols = process.env.NODE_ENV === 'development' ? ['https:', 'http:'] : ['https:'];
+  if (!allowedProtocols.includes(url.protocol)) {
+    throw new GeofenceError('"webhookUrl" must use https');
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (process.env.NODE_ENV !== 'development' && (host === 'localhost' || host.endsWith('.local') || host.endsWith('.internal') || isIP(host))) {
+    throw new GeofenceError('"webhookUrl" must use a public host name');
+  }
+  return url.toString();
+}
+
+// Loopback, private, link-local, shared, multicast and reserved ranges
+const nonPublicAddresses = new BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+].forEach(([network, prefix]) => nonPublicAddresses.addSubnet(network as string, prefix as number, 'ipv4'));
+[
+  ['::', 127], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+].forEach(([network, prefix]) => nonPublicAddresses.addSubnet(network as string, prefix as number, 'ipv6'));
+
+/**
+ * Whether an IP address is publicly routable. IPv4-mapped IPv6 addresses
+ * are checked as IPv4.
+ */
+export function isPublicAddress(address: string): boolean {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) {
+    return !nonPublicAddresses.check(mapped[1], 'ipv4');
+  }
+  const family = isIP(address);
+  return family !== 0 && !nonPublicAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * DNS lookup for webhook deliveries that fails when the host resolves to any
+ * address that is not public. A host name that passed parseWebhookUrl can
+ * still be pointed at the proxy's own network later, so this runs on every
+ * connection.
+ */
+export const lookupPublicAddress: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '');
+      return;
+    }
+
+    const blocked = addresses.find(({ address }) => !isPublicAddress(address));
+    if (blocked) {
+      const refused: NodeJS.ErrnoException = new Error(`Webhook host ${hostname} resolves to non-public address ${blocked.address}`);
+      refused.code = 'EWEBHOOKHOST';
+      callback(refused, '');
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+/**
+ * Validate a geofence create or update body. Org fences need an `orgId`
+ * claim in the caller's JWT.
+ * Throws GeofenceError on the first invalid field
+ */
+export function parseGeofenceInput(body: unknown, user: AuthUser): GeofenceInput {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new GeofenceError('Request body must be a JSON object');
+  }
+  const fields = body as Record<string, unknown>;
+
+  const name = typeof fields.name === 'string' ? fields.name.trim() : '';
+  if (!name || name.length > 255) {
+    throw new GeofenceError('"name" must be a non-empty string of at most 255 characters');
+  }
+
+  const ownerType = fields.owner ?? 'user';
+  if (ownerType !== 'user' && ownerType !== 'org') {
+    throw new GeofenceError('"owner" must be "user" or "org"');
+  }
+  if (ownerType === 'org' && !getUserOrgId(user)) {
+    throw new GeofenceError('Organisation geofences need an organisation in your account', 403, 'ORG_REQUIRED');
+  }
+
+  const dwellSeconds = fields.dwellSeconds ?? null;
+  if (dwellSeconds !== null && (!Number.isInteger(dwellSeconds) ||
+      (dwellSeconds as number) < MIN_DWELL_SECONDS || (dwellSeconds as number) > MAX_DWELL_SECONDS)) {
+    throw new GeofenceError(`"dwellSeconds" must be an integer between ${MIN_DWELL_SECONDS} and ${MAX_DWELL_SECONDS}`);
+  }
+
+  return {
+    ownerType,
+    name,
+    geometry: parseGeometry(fields),
+    dwellSeconds: dwellSeconds as number | null,
+    webhookUrl: parseWebhookUrl(fields.webhookUrl),
+  };
+}
+
+/**
+ * Owner for a new fence: the caller, or the caller's organisation
+ */
+export function getGeofenceOwnerId(user: AuthUser, ownerType: GeofenceOwnerType): string {
+  return ownerType === 'org' ? getUserOrgId(user)! : user.userId;
+}
+
+/**
+ * Whether a user may see and manage a fence: their own, or their organisation's
+ */
+export function canAccessGeofence(user: AuthUser, fence: Geofence): boolean {
+  return fence.ownerType === 'user'
+    ? fence.ownerId === user.userId
+    : fence.ownerId === getUserOrgId(user);
+}
+
+/**
+ * API representation of a fence. The webhook secret is only included when
+ * it has just been generated.
+ */
+export function toGeofenceResponse(fence: Geofence, includeSecret: boolean = false) {
+  return {
+    id: fence.id,
+    name: fence.name,
+    owner: { type: fence.ownerType, id: fence.ownerId },
+    createdBy: fence.createdBy,
+    ...fence.geometry,
+    dwellSeconds: fence.dwellSeconds,
+    webhookUrl: fence.webhookUrl,
+    ...(includeSecret && fence.webhookSecret && { webhookSecret: fence.webhookSecret }),
+    createdAt: fence.createdAt.toISOString(),
+    updatedAt: fence.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Great-circle distance (haversine)
+ */
+export function distanceMeters(a: LatLng, b: LatLng): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLng = toRadians(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Whether a point lies inside a fence. Polygons use ray casting on
+ * latitude/longitude, which is accurate for site-sized fences.
+ */
+export function containsPoint(geometry: GeofenceGeometry, point: LatLng): boolean {
+  if (geometry.shape === 'circle') {
+    return distanceMeters(geometry.center, point) <= geometry.radiusMeters;
+  }
+
+  const { points } = geometry;
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = points[i];
+    const b = points[j];
+    const crosses = (a.latitude > point.latitude) !== (b.latitude > point.latitude) &&
+      point.longitude < (b.longitude - a.longitude) * (point.latitude - a.latitude) / (b.latitude - a.latitude) + a.longitude;
+    if (crosses) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
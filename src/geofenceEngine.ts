@@ -0,0 +1,492 @@
+import { createHmac, randomUUID } from 'node:crypto';
+import http from 'node:http';
+import https from 'node:https';
+import axios from 'axios';
+import { AuthUser, getUserOrgId } from './auth.js';
+import { redisPool } from './connectionPool.js';
+import { containsPoint, Geofence, GeofenceError, GeofenceOwnerType, LatLng, lookupPublicAddress } from './geofence.js';
+import { getAllGeofences, getTruckAccessForUser } from './planetscale.js';
+import { getLocationStreamHub, LocationStreamHub } from './locationStream.js';
+import { getTruckRegistrationNos } from './truckFetcher.js';
+import { canonicalRegistrationNo } from './registrationNo.js';
+import { metrics, MetricNames } from './metrics.js';
+import { logger } from './logger.js';
+
+const log = logger.child({ module: 'geofenceEngine' });
+
+export type GeofenceEventType = 'enter' | 'exit' | 'dwell_exceeded';
+
+/**
+ * A truck crossing a fence boundary, or staying inside past its dwell time
+ */
+export interface GeofenceEvent {
+  id: string;
+  type: GeofenceEventType;
+  fenceId: string;
+  fenceName: string;
+  registrationNo: string;
+  position: LatLng;
+  occurredAt: string; // ISO 8601
+  // dwell_exceeded only: seconds inside the fence so far
+  dwellSeconds?: number;
+}
+
+/**
+ * An event read back from the feed, with the cursor to resume after it
+ */
+export interface GeofenceFeedEntry extends GeofenceEvent {
+  cursor: string;
+}
+
+export interface GeofenceFeedQuery {
+  after?: string;
+  fenceId?: string;
+  registrationNo?: string;
+  limit: number;
+}
+
+/**
+ * How fences are evaluated and events delivered, read from the environment
+ */
+export interface GeofenceEngineConfig {
+  // Replicas with this off serve the API and feed but do not evaluate
+  enabled: boolean;
+  // Location pipe columns holding the position
+  latitudeField: string;
+  longitudeField: string;
+  // How often fences and their creators' truck access are reloaded from PlanetScale
+  refreshIntervalMs: number;
+  // How often trucks parked inside fences are checked for dwell time
+  dwellCheckIntervalMs: number;
+  stateTtlSeconds: number;
+  feedMaxLength: number;
+  webhookTimeoutMs: number;
+  webhookMaxAttempts: number;
+}
+
+/**
+ * Read the engine settings from the environment
+ */
+export function loadGeofenceEngineConfig(env: NodeJS.ProcessEnv = process.env): GeofenceEngineConfig {
+  return {
+    enabled: (env.GEOFENCE_EVALUATION_ENABLED ?? 'true') !== 'false',
+    latitudeField: env.GEOFENCE_LATITUDE_FIELD || 'latitude',
+    longitudeField: env.GEOFENCE_LONGITUDE_FIELD || 'longitude',
+    refreshIntervalMs: parseInt(env.GEOFENCE_REFRESH_INTERVAL_MS || '60000'),
+    dwellCheckIntervalMs: parseInt(env.GEOFENCE_DWELL_CHECK_INTERVAL_MS || '30000'),
+    stateTtlSeconds: parseInt(env.GEOFENCE_STATE_TTL_SECONDS || String(7 * 24 * 3600)),
+    feedMaxLength: parseInt(env.GEOFENCE_FEED_MAXLEN || '10000'),
+    webhookTimeoutMs: parseInt(env.GEOFENCE_WEBHOOK_TIMEOUT_MS || '5000'),
+    webhookMaxAttempts: parseInt(env.GEOFENCE_WEBHOOK_MAX_ATTEMPTS || '3'),
+  };
+}
+
+/**
+ * Record whether a truck is inside a fence, atomically across replicas.
+ * The state is reset when the truck crosses the boundary, so only the
+ * replica that sees the change emits the event.
+ * Returns [changed (1/0), previous inside flag ('' if never seen), ms since the current state began]
+ */
+const OBSERVE_SCRIPT = `
+local previous = redis.call('HGET', KEYS[1], 'inside') or ''
+local since = ARGV[2]
+if previous == ARGV[1] then
+  since = redis.call('HGET', KEYS[1], 'since') or ARGV[2]
+else
+  redis.call('DEL', KEYS[1])
+  redis.call('HSET', KEYS[1], 'inside', ARGV[1], 'since', ARGV[2])
+end
+redis.call('HSET', KEYS[1], 'latitude', ARGV[4], 'longitude', ARGV[5])
+redis.call('PEXPIRE', KEYS[1], ARGV[3])
+if previous == ARGV[1] then
+  return {0, previous, since}
+end
+return {1, previous, since}
+`;
+
+const CURSOR_PATTERN = /^\d+-\d+$/;
+
+function getStateKey(fenceId: string, registrationNo: string): string {
+  return `geofence:state:${fenceId}:${registrationNo}`;
+}
+
+function getFeedKey(ownerType: GeofenceOwnerType, ownerId: string): string {
+  return `geofence:events:${ownerType}:${ownerId}`;
+}
+
+function compareStreamIds(a: string, b: string): number {
+  const [aMs, aSeq] = a.split('-').map(Number);
+  const [bMs, bSeq] = b.split('-').map(Number);
+  return aMs - bMs || aSeq - bSeq;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Parse the event feed query string, throwing GeofenceError on invalid values
+ */
+export function parseGeofenceFeedQuery(searchParams: URLSearchParams): GeofenceFeedQuery {
+  const after = searchParams.get('after') || undefined;
+  if (after && !CURSOR_PATTERN.test(after)) {
+    throw new GeofenceError('"after" must be a cursor returned by this feed', 400, 'INVALID_GEOFENCE_QUERY');
+  }
+
+  const limit = parseInt(searchParams.get('limit') || '100');
+  if (!(limit >= 1 && limit <= 1000)) {
+    throw new GeofenceError('"limit" must be between 1 and 1000', 400, 'INVALID_GEOFENCE_QUERY');
+  }
+
+  // Only narrows the reader's own trucks, so any value is compared in canonical form
+  const registrationNo = searchParams.get('registrationNo') || undefined;
+
+  return {
+    after,
+    fenceId: searchParams.get('fenceId') || undefined,
+    registrationNo: registrationNo && canonicalRegistrationNo(registrationNo),
+    limit,
+  };
+}
+
+/**
+ * Evaluates truck positions against geofences and publishes transitions.
+ *
+ * Positions come from the live location hub, which polls the location pipe
+ * once per truck set, so the engine adds no Tinybird queries of its own
+ * while dashboards are open. Each fence is evaluated against the trucks its
+ * creator can access (getTruckAccessForUser). Enter/exit state lives in
+ * Dragonfly, so replicas agree on transitions and each is emitted once.
+ * Events go to the owner's feed (a Redis Stream) and the fence's webhook.
+ */
+export class GeofenceEngine {
+  private fencesByCreator = new Map<string, Geofence[]>();
+  private trucksByCreator = new Map<string, Set<string>>();
+  private watches = new Map<string, Promise<() => void>>();
+  private refreshTimer: NodeJS.Timeout | null = null;
+  private dwellTimer: NodeJS.Timeout | null = null;
+  private refreshing: Promise<void> | null = null;
+
+  constructor(
+    private config: GeofenceEngineConfig,
+    private hub: LocationStreamHub = getLocationStreamHub()
+  ) {}
+
+  get enabled(): boolean {
+    return this.config.enabled;
+  }
+
+  start(): void {
+    if (!this.config.enabled || this.refreshTimer) {
+      return;
+    }
+
+    this.reload();
+    this.refreshTimer = setInterval(() => this.reload(), this.config.refreshIntervalMs);
+    this.refreshTimer.unref();
+    this.dwellTimer = setInterval(() => {
+      this.checkDwell().catch(error => log.warn('Geofence dwell check failed', { error }));
+    }, this.config.dwellCheckIntervalMs);
+    this.dwellTimer.unref();
+  }
+
+  /**
+   * Reload fences and truck access now, e.g. after a fence was changed
+   * through this replica. Other replicas pick changes up on their next refresh.
+   */
+  reload(): Promise<void> {
+    if (!this.config.enabled) {
+      return Promise.resolve();
+    }
+    if (!this.refreshing) {
+      this.refreshing = this.refresh()
+        .catch(error => log.warn('Failed to reload geofences', { error }))
+        .finally(() => {
+          this.refreshing = null;
+        });
+    }
+    return this.refreshing;
+  }
+
+  getStats() {
+    return {
+      enabled: this.config.enabled,
+      fences: [...this.fencesByCreator.values()].reduce((total, fences) => total + fences.length, 0),
+      watchedUsers: this.watches.size,
+    };
+  }
+
+  /**
+   * Read the events a user may see: their own fences' and their
+   * organisation's, for trucks they currently have access to. Without
+   * `after` the newest events are returned; pass the returned `nextCursor`
+   * as `after` to poll for newer ones. A page may hold fewer than `limit`
+   * events when some were filtered out.
+   */
+  async readFeed(user: AuthUser, query: GeofenceFeedQuery): Promise<{ events: GeofenceFeedEntry[]; nextCursor: string | null }> {
+    const orgId = getUserOrgId(user);
+    const keys = [getFeedKey('user', user.userId), ...(orgId ? [getFeedKey('org', orgId)] : [])];
+
+    const pages = await redisPool.execute(async (redis) => {
+      return Promise.all(keys.map(key => query.after
+        ? redis.xrange(key, `(${query.after}`, '+', 'COUNT', query.limit)
+        : redis.xrevrange(key, '+', '-', 'COUNT', query.limit)
+      ));
+    });
+
+    const page = pages.flat()
+      .sort(([a], [b]) => compareStreamIds(a, b))
+      .slice(query.after ? 0 : -query.limit)
+      .slice(0, query.limit);
+
+    const visibleTrucks = new Set(await getTruckRegistrationNos(user.userId));
+    const events = page
+      .map(([cursor, fields]) => ({ cursor, ...JSON.parse(fields[1]) as GeofenceEvent }))
+      .filter(event => visibleTrucks.has(event.registrationNo))
+      .filter(event => !query.fenceId || event.fenceId === query.fenceId)
+      .filter(event => !query.registrationNo || event.registrationNo === query.registrationNo);
+
+    return { events, nextCursor: page.length > 0 ? page[page.length - 1][0] : query.after ?? null };
+  }
+
+  shutdown(): void {
+    [this.refreshTimer, this.dwellTimer].forEach(timer => timer && clearInterval(timer));
+    this.refreshTimer = null;
+    this.dwellTimer = null;
+    this.watches.forEach(watch => watch.then(unwatch => unwatch()).catch(() => {}));
+    this.watches.clear();
+  }
+
+  private async refresh(): Promise<void> {
+    const fencesByCreator = new Map<string, Geofence[]>();
+    (await getAllGeofences()).forEach(fence => {
+      fencesByCreator.set(fence.createdBy, [...(fencesByCreator.get(fence.createdBy) ?? []), fence]);
+    });
+
+    for (const creator of fencesByCreator.keys()) {
+      try {
+        this.trucksByCreator.set(creator, new Set(await getTruckAccessForUser(creator)));
+      } catch (error) {
+        // Keep evaluating with the last known trucks
+        log.warn('Failed to load truck access for geofence owner', { userId: creator, error });
+      }
+    }
+    [...this.trucksByCreator.keys()]
+      .filter(creator => !fencesByCreator.has(creator))
+      .forEach(creator => this.trucksByCreator.delete(creator));
+    this.fencesByCreator = fencesByCreator;
+
+    fencesByCreator.forEach((_fences, creator) => this.watch(creator));
+    [...this.watches.keys()]
+      .filter(creator => !fencesByCreator.has(creator))
+      .forEach(creator => this.unwatch(creator));
+  }
+
+  private watch(creator: string): void {
+    if (this.watches.has(creator)) {
+      return;
+    }
+
+    const watch = this.hub.watch(creator, {
+      send: message => {
+        if (message.type === 'location') {
+          this.handlePosition(creator, message.registrationNo, message.position);
+        }
+      },
+      // Closed by the hub on a truck access change or shutdown; the next
+      // refresh watches the creator's new truck set. Unsubscribing lets the
+      // old truck set's poller go idle.
+      close: () => {
+        if (this.watches.get(creator) === watch) {
+          this.unwatch(creator);
+        }
+      },
+    });
+    watch.catch(error => {
+      log.warn('Failed to follow truck positions for geofences', { userId: creator, error });
+      this.watches.delete(creator);
+    });
+    this.watches.set(creator, watch);
+  }
+
+  private unwatch(creator: string): void {
+    this.watches.get(creator)?.then(unwatch => unwatch()).catch(() => {});
+    this.watches.delete(creator);
+  }
+
+  private handlePosition(creator: string, registrationNo: string, row: Record<string, unknown>): void {
+    if (!this.trucksByCreator.get(creator)?.has(registrationNo)) {
+      return;
+    }
+
+    const latitude = Number(row[this.config.latitudeField]);
+    const longitude = Number(row[this.config.longitudeField]);
+    if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) {
+      return;
+    }
+
+    const position = { latitude, longitude };
+    (this.fencesByCreator.get(creator) ?? []).forEach(fence => {
+      this.evaluate(fence, registrationNo, position).catch(error => {
+        metrics.incrementCounter(MetricNames.GEOFENCE_EVALUATION_ERROR, 1);
+        log.warn('Geofence evaluation failed', { fenceId: fence.id, registrationNo, error });
+      });
+    });
+  }
+
+  /**
+   * Record a position against one fence and emit the resulting transition.
+   * The first position seen for a truck only sets its state: a truck that
+   * is already inside a new fence does not "enter" it.
+   */
+  private async evaluate(fence: Geofence, registrationNo: string, position: LatLng): Promise<void> {
+    const inside = containsPoint(fence.geometry, position);
+    const now = Date.now();
+    const [changed, previous, since] = await redisPool.execute(async (redis) => {
+      return await redis.eval(
+        OBSERVE_SCRIPT, 1, getStateKey(fence.id, registrationNo),
+        inside ? '1' : '0', now, this.config.stateTtlSeconds * 1000, position.latitude, position.longitude
+      ) as [number, string, string];
+    });
+
+    if (changed === 1 && previous !== '') {
+      await this.emit(fence, { type: inside ? 'enter' : 'exit', registrationNo, position, occurredAt: now });
+    }
+    if (inside && changed === 0) {
+      await this.checkFenceDwell(fence, registrationNo, position, parseInt(since), now);
+    }
+  }
+
+  /**
+   * Emit dwell_exceeded once per visit, the first time a truck has been
+   * inside longer than the fence's dwell time
+   */
+  private async checkFenceDwell(fence: Geofence, registrationNo: string, position: LatLng, since: number, now: number): Promise<void> {
+    if (!fence.dwellSeconds || now - since < fence.dwellSeconds * 1000) {
+      return;
+    }
+
+    const first = await redisPool.execute(async (redis) => {
+      return await redis.hsetnx(getStateKey(fence.id, registrationNo), 'dwellNotified', '1');
+    });
+    if (first === 1) {
+      await this.emit(fence, {
+        type: 'dwell_exceeded',
+        registrationNo,
+        position,
+        occurredAt: now,
+        dwellSeconds: Math.floor((now - since) / 1000),
+      });
+    }
+  }
+
+  /**
+   * Positions are only pushed when they change, so trucks parked inside a
+   * fence are checked for dwell time from their stored state
+   */
+  private async checkDwell(): Promise<void> {
+    const now = Date.now();
+    for (const [creator, fences] of this.fencesByCreator) {
+      const trucks = [...(this.trucksByCreator.get(creator) ?? [])];
+      for (const fence of fences.filter(f => f.dwellSeconds)) {
+        const states = await redisPool.execute(async (redis) => {
+          const pipeline = redis.pipeline();
+          trucks.forEach(truck => pipeline.hmget(getStateKey(fence.id, truck), 'inside', 'since', 'dwellNotified', 'latitude', 'longitude'));
+          return pipeline.exec();
+        });
+
+        for (const [index, [, state]] of (states ?? []).entries()) {
+          const [inside, since, dwellNotified, latitude, longitude] = state as Array<string | null>;
+          if (inside === '1' && since && !dwellNotified) {
+            const position = { latitude: Number(latitude), longitude: Number(longitude) };
+            await this.checkFenceDwell(fence, trucks[index], position, parseInt(since), now);
+          }
+        }
+      }
+    }
+  }
+
+  private async emit(
+    fence: Geofence,
+    details: { type: GeofenceEventType; registrationNo: string; position: LatLng; occurredAt: number; dwellSeconds?: number }
+  ): Promise<void> {
+    const event: GeofenceEvent = {
+      id: randomUUID(),
+      type: details.type,
+      fenceId: fence.id,
+      fenceName: fence.name,
+      registrationNo: details.registrationNo,
+      position: details.position,
+      occurredAt: new Date(details.occurredAt).toISOString(),
+      ...(details.dwellSeconds !== undefined && { dwellSeconds: details.dwellSeconds }),
+    };
+
+    metrics.incrementCounter(MetricNames.GEOFENCE_EVENTS, 1, { type: event.type });
+    log.info('Geofence event', { eventId: event.id, type: event.type, fenceId: fence.id, registrationNo: event.registrationNo });
+
+    await redisPool.execute(async (redis) => {
+      return await redis.xadd(getFeedKey(fence.ownerType, fence.ownerId), 'MAXLEN', '~', this.config.feedMaxLength, '*', 'event', JSON.stringify(event));
+    });
+
+    if (fence.webhookUrl && fence.webhookSecret) {
+      this.deliverWebhook(fence.webhookUrl, fence.webhookSecret, event);
+    }
+  }
+
+  /**
+   * POST an event to a fence's webhook, retrying with backoff. Outside
+   * development, connections to hosts resolving to non-public addresses are
+   * refused. The body is
+   * signed with the fence's secret: `X-Geofence-Signature: t=<unix seconds>,v1=<hex>`,
+   * where v1 is HMAC-SHA256 of `<t>.<body>`.
+   */
+  private deliverWebhook(url: string, secret: string, event: GeofenceEvent): void {
+    const body = JSON.stringify(event);
+
+    (async () => {
+      for (let attempt = 1; attempt <= this.config.webhookMaxAttempts; attempt++) {
+        const timestamp = Math.floor(Date.now() / 1000);
+        const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+        try {
+          await axios.post(url, body, {
+            headers: {
+              'Content-Type': 'application/json',
+              'X-Geofence-Event': event.type,
+              'X-Geofence-Event-Id': event.id,
+              'X-Geofence-Signature': `t=${timestamp},v1=${signature}`,
+            },
+            timeout: this.config.webhookTimeoutMs,
+            maxRedirects: 0,
+            ...(process.env.NODE_ENV !== 'development' && webhookAgents),
+          });
+          metrics.incrementCounter(MetricNames.GEOFENCE_WEBHOOK_DELIVERY, 1, { result: 'success' });
+          return;
+        } catch (error) {
+          log.warn('Geofence webhook delivery failed', { eventId: event.id, fenceId: event.fenceId, attempt, error });
+          if (attempt < this.config.webhookMaxAttempts) {
+            await sleep(1000 * 2 ** (attempt - 1));
+          }
+        }
+      }
+      metrics.incrementCounter(MetricNames.GEOFENCE_WEBHOOK_DELIVERY, 1, { result: 'failure' });
+    })();
+  }
+}
+
+// Webhook connections resolve their host through lookupPublicAddress
+const webhookAgents = {
+  httpAgent: new http.Agent({ lookup: lookupPublicAddress }),
+  httpsAgent: new https.Agent({ lookup: lookupPublicAddress }),
+};
+
+let geofenceEngine: GeofenceEngine | null = null;
+
+/**
+ * Get the geofence engine, creating it from the environment on first use
+ */
+export function getGeofenceEngine(): GeofenceEngine {
+  if (!geofenceEngine) {
+    geofenceEngine = new GeofenceEngine(loadGeofenceEngineConfig());
+  }
+  return geofenceEngine;
+}
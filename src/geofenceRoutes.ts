@@ -0,0 +1,202 @@
+import { randomBytes, randomUUID } from 'node:crypto';
+import { Context, Hono } from 'hono';
+import { AuthUser, getUserOrgId } from './auth.js';
+import {
+  canAccessGeofence,
+  Geofence,
+  GeofenceError,
+  getGeofenceOwnerId,
+  GeofenceOwnerType,
+  parseGeofenceInput,
+  toGeofenceResponse,
+} from './geofence.js';
+import { getGeofenceEngine, parseGeofenceFeedQuery } from './geofenceEngine.js';
+import { deleteGeofence, getGeofenceById, getGeofencesForOwners, insertGeofence, PlanetScaleError, updateGeofence } from './planetscale.js';
+import { CircuitOpenError } from './circuitBreaker.js';
+import { rateLimitMiddleware } from './rateLimit.js';
+import { logger } from './logger.js';
+
+const log = logger.child({ module: 'geofenceRoutes' });
+
+/**
+ * Geofence management and event feed, mounted at /geofences. Expects
+ * `user` on the context (authMiddleware).
+ */
+export const geofenceRoutes = new Hono<{ Variables: { user: AuthUser } }>();
+
+geofenceRoutes.use('*', rateLimitMiddleware);
+
+function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+async function readBody(c: Context): Promise<unknown> {
+  try {
+    return await c.req.json();
+  } catch {
+    throw new GeofenceError('Request body is not valid JSON');
+  }
+}
+
+/**
+ * A fence the user may manage
+ * Throws GeofenceError (404) when it does not exist or belongs to someone else
+ */
+async function getAccessibleGeofence(user: AuthUser, id: string): Promise<Geofence> {
+  const fence = await getGeofenceById(id);
+  if (!fence || !canAccessGeofence(user, fence)) {
+    throw new GeofenceError(`Geofence ${id} not found`, 404, 'GEOFENCE_NOT_FOUND');
+  }
+  return fence;
+}
+
+function errorResponse(c: Context, error: unknown): Response {
+  if (error instanceof GeofenceError) {
+    return c.json({
+      error: error.message,
+      code: error.code,
+      timestamp: new Date().toISOString()
+    }, error.statusCode as any);
+  }
+  if (error instanceof PlanetScaleError || error instanceof CircuitOpenError) {
+    return c.json({
+      error: 'Geofences are temporarily unavailable',
+      code: 'GEOFENCE_STORE_UNAVAILABLE',
+      timestamp: new Date().toISOString()
+    }, 503 as any);
+  }
+
+  log.error('Geofence request failed', { error });
+  return c.json({ error: 'Internal server error' }, 500 as any);
+}
+
+// List the user's own and their organisation's fences
+geofenceRoutes.get('/', async (c) => {
+  const user = c.get('user');
+  try {
+    const orgId = getUserOrgId(user);
+    const owners: Array<{ type: GeofenceOwnerType; id: string }> = [
+      { type: 'user', id: user.userId },
+      ...(orgId ? [{ type: 'org' as const, id: orgId }] : []),
+    ];
+    const fences = await getGeofencesForOwners(owners);
+    return c.json({
+      geofences: fences.map(fence => toGeofenceResponse(fence)),
+      count: fences.length,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    return errorResponse(c, error);
+  }
+});
+
+geofenceRoutes.post('/', async (c) => {
+  const user = c.get('user');
+  try {
+    const input = parseGeofenceInput(await readBody(c), user);
+    const now = new Date();
+    const fence: Geofence = {
+      id: randomUUID(),
+      ownerType: input.ownerType,
+      ownerId: getGeofenceOwnerId(user, input.ownerType),
+      createdBy: user.userId,
+      name: input.name,
+      geometry: input.geometry,
+      dwellSeconds: input.dwellSeconds,
+      webhookUrl: input.webhookUrl,
+      webhookSecret: input.webhookUrl ? generateWebhookSecret() : null,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await insertGeofence(fence);
+    void getGeofenceEngine().reload();
+    log.info('Geofence created', { fenceId: fence.id, ownerType: fence.ownerType, userId: user.userId });
+
+    // The webhook secret is only ever returned here (and when the webhook URL changes)
+    return c.json({ geofence: toGeofenceResponse(fence, true) }, 201 as any);
+  } catch (error) {
+    return errorResponse(c, error);
+  }
+});
+
+// Events for the user's and their organisation's fences; registered before /:id
+geofenceRoutes.get('/events', async (c) => {
+  const user = c.get('user');
+  try {
+    const query = parseGeofenceFeedQuery(new URL(c.req.url).searchParams);
+    const { events, nextCursor } = await getGeofenceEngine().readFeed(user, query);
+    return c.json({
+      events,
+      count: events.length,
+      nextCursor,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    return errorResponse(c, error);
+  }
+});
+
+geofenceRoutes.get('/:id', async (c) => {
+  const user = c.get('user');
+  try {
+    const fence = await getAccessibleGeofence(user, c.req.param('id'));
+    return c.json({ geofence: toGeofenceResponse(fence) });
+  } catch (error) {
+    return errorResponse(c, error);
+  }
+});
+
+// Replace a fence's name, shape, dwell time and webhook. Its owner cannot
+// change, and only its creator may change its webhook: fences report their
+// creator's trucks, so another organisation member could otherwise redirect
+// the creator's events.
+geofenceRoutes.put('/:id', async (c) => {
+  const user = c.get('user');
+  try {
+    const existing = await getAccessibleGeofence(user, c.req.param('id'));
+    const input = parseGeofenceInput(await readBody(c), user);
+    if (input.ownerType !== existing.ownerType) {
+      throw new GeofenceError('A geofence\'s owner cannot be changed', 400, 'INVALID_GEOFENCE');
+    }
+
+    const webhookChanged = input.webhookUrl !== existing.webhookUrl;
+    if (webhookChanged && existing.createdBy !== user.userId) {
+      throw new GeofenceError('Only the geofence\'s creator can change its webhook', 403, 'WEBHOOK_CHANGE_DENIED');
+    }
+
+    // A new URL gets a new secret, so the previous receiver can't verify its events
+    const newSecret = webhookChanged && input.webhookUrl !== null;
+    const fence: Geofence = {
+      ...existing,
+      name: input.name,
+      geometry: input.geometry,
+      dwellSeconds: input.dwellSeconds,
+      webhookUrl: input.webhookUrl,
+      webhookSecret: !input.webhookUrl ? null : newSecret ? generateWebhookSecret() : existing.webhookSecret,
+      updatedAt: new Date(),
+    };
+
+    await updateGeofence(fence);
+    void getGeofenceEngine().reload();
+    log.info('Geofence updated', { fenceId: fence.id, userId: user.userId });
+
+    return c.json({ geofence: toGeofenceResponse(fence, newSecret) });
+  } catch (error) {
+    return errorResponse(c, error);
+  }
+});
+
+geofenceRoutes.delete('/:id', async (c) => {
+  const user = c.get('user');
+  try {
+    const fence = await getAccessibleGeofence(user, c.req.param('id'));
+    await deleteGeofence(fence.id);
+    void getGeofenceEngine().reload();
+    log.info('Geofence deleted', { fenceId: fence.id, userId: user.userId });
+
+    return c.body(null, 204);
+  } catch (error) {
+    return errorResponse(c, error);
+  }
+});
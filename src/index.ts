@@ -1,43 +1,67 @@
-import { Hono } from 'hono';
+import 'dotenv/config';
+import { Context, Hono } from 'hono';
 import { serve } from '@hono/node-server';
+import { createNodeWebSocket } from '@hono/node-ws';
 import { cors } from 'hono/cors';
 import { compress } from 'hono/compress';
-import dotenv from 'dotenv';
-import axios from 'axios';
-import { authMiddleware, AuthUser } from './auth.js';
+import { adminMiddleware, authMiddleware, AuthUser } from './auth.js';
 import { dragonflyClient, DragonflyError } from './dragonfly.js';
-import { generateTinybirdToken, TinybirdError } from './tinybird.js';
+import { TinybirdError } from './tinybird.js';
+import { getTinybirdTokenForUser, getWindowedTinybirdToken } from './tokenService.js';
+import { AccessWindowError } from './accessWindow.js';
 import { metrics, MetricNames } from './metrics.js';
-import { RedisConnectionPool } from './connectionPool.js';
+import { redisPool, redisReadPool } from './connectionPool.js';
+import { getRedisConfig } from './redisConfig.js';
+import { cache } from './cache.js';
+import { getTruckAccessHealth } from './truckFetcher.js';
+import { getTinybirdUpstream, TinybirdUpstream, UpstreamError } from './tinybirdUpstream.js';
+import { routePolicyMiddleware, RouteMatch } from './routePolicy.js';
+import { readJsonBody } from './requestedTrucks.js';
+import { getPipe, getPipeRegistry, PipeRegistry } from './pipeRegistry.js';
+import { getRateLimitConfig, RateLimitConfig, rateLimitMiddleware } from './rateLimit.js';
+import { getMethodLabel, getRouteTemplate, registerRouteTemplate } from './routeTemplates.js';
+import { initTracing, shutdownTracing, TraceExporter, tracingMiddleware } from './tracing.js';
+import { logger } from './logger.js';
+import { REQUEST_ID_HEADER, requestIdMiddleware } from './requestId.js';
+import { AuditError, AuditLogger, auditResponse, getAuditLogger, parseAuditQuery } from './audit.js';
+import { isCacheable, serveWithCache } from './responseCache.js';
+import { GeofenceEngine, getGeofenceEngine } from './geofenceEngine.js';
+import { geofenceRoutes } from './geofenceRoutes.js';
+import { fleetOperations, fleetRoutes, getFleetOpenApiDocument } from './fleetRoutes.js';
+import { FleetApiConfig, getFleetApiConfig } from './fleetApi.js';
+import { getLocationStreamHub, LocationStreamHub, locationStreamMiddleware, streamLocationsSSE, streamLocationsWebSocket } from './locationStream.js';
+
+const log = logger.child({ module: 'server' });
 
-// Load environment variables
-dotenv.config();
+const app = new Hono();
+
+const { upgradeWebSocket, injectWebSocket } = createNodeWebSocket({ app });
 
-// Initialize connection pool for better scalability
-const redisPool = new RedisConnectionPool(
-  process.env.DRAGONFLY_URL || 'redis://localhost:6379',
-  {
-    minConnections: parseInt(process.env.REDIS_MIN_CONNECTIONS || '5'),
-    maxConnections: parseInt(process.env.REDIS_MAX_CONNECTIONS || '50'),
+/**
+ * The origin to allow for a request, or null to refuse it
+ */
+function resolveAllowedOrigin(origin: string): string | null {
+  // Allow requests from specific origins or all origins in development
+  const allowedOrigins = process.env.ALLOWED_ORIGINS?.split(',') || [];
+  
+  if (process.env.NODE_ENV === 'development') {
+    return origin || '*'; // Allow all origins in development
   }
-);
+  
+  if (!origin) return origin; // Allow requests with no origin (e.g., mobile apps, Postman)
+  
+  return allowedOrigins.includes(origin) ? origin : null;
+}
 
-const app = new Hono();
+// Assign a request ID first so every later log line carries it
+app.use('*', requestIdMiddleware);
+
+// Trace every request, continuing the caller's trace when it sends traceparent
+app.use('*', tracingMiddleware);
 
 // Add CORS middleware with credentials support for cookie-based auth
 app.use('*', cors({
-  origin: (origin) => {
-    // Allow requests from specific origins or all origins in development
-    const allowedOrigins = process.env.ALLOWED_ORIGINS?.split(',') || [];
-    
-    if (process.env.NODE_ENV === 'development') {
-      return origin || '*'; // Allow all origins in development
-    }
-    
-    if (!origin) return origin; // Allow requests with no origin (e.g., mobile apps, Postman)
-    
-    return allowedOrigins.includes(origin) ? origin : null;
-  },
+  origin: resolveAllowedOrigin,
   credentials: true, // Important for cookie-based auth
   allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS', 'PATCH'],
   allowHeaders: [
@@ -47,9 +71,13 @@ app.use('*', cors({
     'Authorization', 
     'X-Requested-With',
     'X-User-Agent',
-    'Cache-Control'
+    REQUEST_ID_HEADER,
+    'Cache-Control',
+    'If-None-Match',
+    'traceparent',
+    'tracestate'
   ],
-  exposeHeaders: ['Content-Length', 'X-Request-ID'],
+  exposeHeaders: ['Content-Length', REQUEST_ID_HEADER, 'RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset', 'Retry-After', 'ETag', 'Age', 'X-Cache'],
   maxAge: 86400, // 24 hours preflight cache
 }));
 
@@ -61,23 +89,24 @@ app.use('*', async (c, next) => {
   const start = Date.now();
   const path = c.req.path;
   const method = c.req.method;
+  // Label with the route template rather than the raw path to bound cardinality
+  const labels = { method: getMethodLabel(method), path: getRouteTemplate(path) };
   
   try {
     await next();
     
     const duration = Date.now() - start;
     metrics.incrementCounter(MetricNames.REQUEST_TOTAL, 1, { 
-      method, 
-      path, 
+      ...labels,
       status: String(c.res.status) 
     });
-    metrics.recordHistogram(MetricNames.REQUEST_DURATION, duration, { method, path });
+    metrics.recordHistogram(MetricNames.REQUEST_DURATION, duration, labels);
     
-    console.log(`${method} ${path} - ${c.res.status} - ${duration}ms`);
+    log.info('Request completed', { method, path, status: c.res.status, durationMs: duration });
   } catch (error) {
     const duration = Date.now() - start;
-    metrics.incrementCounter(MetricNames.REQUEST_ERROR, 1, { method, path });
-    console.error(`${method} ${path} - ERROR - ${duration}ms`, error);
+    metrics.incrementCounter(MetricNames.REQUEST_ERROR, 1, labels);
+    log.error('Request failed', { method, path, durationMs: duration, error });
     throw error;
   }
 });
@@ -85,12 +114,21 @@ app.use('*', async (c, next) => {
 // Health check endpoint
 app.get('/health', async (c) => {
   const poolStats = redisPool.getStats();
+  const truckAccessHealth = getTruckAccessHealth();
+  const tinybirdHealth = getTinybirdUpstream().getHealth();
   
   return c.json({ 
-    status: 'healthy', 
+    status: truckAccessHealth.degraded || tinybirdHealth.degraded ? 'degraded' : 'healthy', 
     timestamp: new Date().toISOString(),
     dragonfly_status: dragonflyClient.getStatus(),
+    redis_mode: getRedisConfig().mode,
     connection_pool: poolStats,
+    ...(redisReadPool !== redisPool && { read_pool: redisReadPool.getStats() }),
+    cache: cache.getStats(),
+    truck_access: truckAccessHealth,
+    tinybird: tinybirdHealth,
+    location_streams: getLocationStreamHub().getStats(),
+    geofences: getGeofenceEngine().getStats(),
     metrics: metrics.getMetricsSummary(),
   });
 });
@@ -101,9 +139,14 @@ app.get('/metrics', (c) => {
   return c.text(metrics.getMetricsPrometheus());
 });
 
-// Apply auth middleware to all routes except health and metrics
+// OpenAPI document for the fleet API, public so clients can generate code from it
+registerRouteTemplate('/openapi.json');
+
+app.get('/openapi.json', (c) => c.json(getFleetOpenApiDocument()));
+
+// Apply auth middleware to all routes except health, metrics and the API document
 app.use('*', async (c, next) => {
-  if (c.req.path === '/health' || c.req.path === '/metrics') {
+  if (c.req.path === '/health' || c.req.path === '/metrics' || c.req.path === '/openapi.json') {
     await next();
     return;
   }
@@ -136,206 +179,258 @@ app.get('/auth/test', async (c) => {
   }
 });
 
-// Main proxy handler for all Tinybird requests
-app.all('*', async (c) => {
-  const requestTimer = metrics.startTimer(MetricNames.REQUEST_DURATION);
-  
+// Audit log admin endpoint
+registerRouteTemplate('/admin/audit');
+
+app.get('/admin/audit', adminMiddleware, async (c) => {
+  try {
+    const query = parseAuditQuery(new URL(c.req.url).searchParams);
+    const records = await getAuditLogger().query(query);
+    return c.json({
+      records,
+      count: records.length,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    if (error instanceof AuditError) {
+      return c.json({
+        error: error.message,
+        code: error.code,
+        timestamp: new Date().toISOString()
+      }, error.statusCode as any);
+    }
+    throw error;
+  }
+});
+
+// Live truck locations: Server-Sent Events, or a WebSocket when the client asks to upgrade
+registerRouteTemplate('/stream/locations');
+
+app.get(
+  '/stream/locations',
+  async (c, next) => {
+    // Browsers send cookies on cross-site WebSocket handshakes and CORS does
+    // not apply to them, so the origin is checked here
+    const origin = c.req.header('Origin');
+    if (c.req.header('Upgrade')?.toLowerCase() === 'websocket' && origin && !resolveAllowedOrigin(origin)) {
+      return c.json({
+        error: `Origin ${origin} is not allowed`,
+        code: 'ORIGIN_NOT_ALLOWED',
+        timestamp: new Date().toISOString()
+      }, 403 as any);
+    }
+    await next();
+  },
+  rateLimitMiddleware,
+  locationStreamMiddleware,
+  upgradeWebSocket(streamLocationsWebSocket),
+  streamLocationsSSE
+);
+
+// Geofence management and event feed
+registerRouteTemplate('/geofences');
+registerRouteTemplate('/geofences/events');
+registerRouteTemplate('/geofences/:id');
+
+app.route('/geofences', geofenceRoutes);
+
+// Fleet API: trucks, latest positions and history without pipe names
+fleetOperations.forEach(operation => registerRouteTemplate(operation.path));
+
+app.route('/', fleetRoutes);
+
+/**
+ * Forward a pipe request to Tinybird with the user's token. Sets
+ * `upstreamStatus` on the context once Tinybird has answered.
+ */
+async function proxyToTinybird(c: Context): Promise<Response> {
   try {
     // Type assertion to work around Hono's context typing
     const ctx = c as any;
     const user = ctx.get('user') as AuthUser;
     const userId = user.userId;
 
-    console.log(`Processing request for user ${userId}: ${c.req.method} ${c.req.path}`);
+    log.debug('Processing request', { userId, method: c.req.method, path: c.req.path });
 
-    // Check cache for existing token
-    let tinybirdToken: string | null = null;
-    
+    // Get a Tinybird token: history pipes get one pinned to the query's
+    // access window, everything else a cached per-user token
+    const pipe = getPipe((ctx.get('route') as RouteMatch).pipe)!;
+    let tinybirdToken: string;
     try {
-      const cacheTimer = metrics.startTimer(MetricNames.CACHE_HIT);
-      tinybirdToken = await redisPool.execute(async (redis) => {
-        return await redis.get(`tinybird_token:${userId}`);
-      });
-      cacheTimer();
-      
-      if (tinybirdToken) {
-        metrics.incrementCounter(MetricNames.CACHE_HIT);
-      } else {
-        metrics.incrementCounter(MetricNames.CACHE_MISS);
-      }
+      tinybirdToken = pipe.timeWindow
+        ? await getWindowedTinybirdToken(userId, pipe, ctx.get('requestedTrucks') as string[], new URL(c.req.url).searchParams, await readJsonBody(c))
+        : await getTinybirdTokenForUser(userId);
     } catch (error) {
-      metrics.incrementCounter(MetricNames.CACHE_ERROR);
-      console.warn('Cache lookup failed, proceeding without cache:', error);
+      if (error instanceof AccessWindowError) {
+        return c.json({
+          error: error.message,
+          code: error.code,
+          timestamp: new Date().toISOString()
+        }, error.statusCode as any);
+      }
+      if (error instanceof TinybirdError) {
+        return c.json({ error: error.message }, (error.statusCode || 500) as any);
+      }
+      throw error;
     }
 
-    // Generate new token if not cached
-    if (!tinybirdToken) {
-      const tokenTimer = metrics.startTimer(MetricNames.TOKEN_GENERATION_DURATION);
-      
+    log.debug('Forwarding request to Tinybird', { method: c.req.method, pipe: pipe.name });
+
+    // Forward request to Tinybird, streaming both request and response bodies.
+    // Timeouts, retries and region failover are handled by the upstream.
+    const fetchUpstream = async (extraHeaders: Record<string, string>) => {
+      const tinybirdTimer = metrics.startTimer(MetricNames.TINYBIRD_REQUEST_DURATION, { pipe: pipe.name });
       try {
-        console.log(`Generating new Tinybird token for user ${userId}`);
-        tinybirdToken = await generateTinybirdToken(userId);
-        metrics.incrementCounter(MetricNames.TOKEN_GENERATED);
-        
-        // Cache the token for 1 hour (3600 seconds)
-        try {
-          await redisPool.execute(async (redis) => {
-            await redis.setex(`tinybird_token:${userId}`, 3600, tinybirdToken!);
-          });
-        } catch (error) {
-          console.warn('Failed to cache token, proceeding anyway:', error);
-        }
+        const response = await getTinybirdUpstream().forward(c, pipe, tinybirdToken, extraHeaders);
+
+        tinybirdTimer();
+        metrics.incrementCounter(MetricNames.TINYBIRD_REQUEST_TOTAL, 1, {
+          pipe: pipe.name,
+          status: String(response.status),
+          method: c.req.method,
+        });
+        return response;
       } catch (error) {
-        metrics.incrementCounter(MetricNames.TOKEN_GENERATION_ERROR);
-        tokenTimer();
-        
-        if (error instanceof TinybirdError) {
-          return c.json({ error: error.message }, (error.statusCode || 500) as any);
-        }
+        tinybirdTimer();
+        metrics.incrementCounter(MetricNames.TINYBIRD_REQUEST_ERROR, 1, { pipe: pipe.name });
         throw error;
-      } finally {
-        tokenTimer();
       }
-    }
-
-    // Prepare Tinybird request
-    const tinybirdApiUrl = process.env.TINYBIRD_API_URL;
-    if (!tinybirdApiUrl) {
-      return c.json({ error: 'TINYBIRD_API_URL not configured' }, 500 as any);
-    }
-
-    // Build the target URL
-    const targetUrl = `${tinybirdApiUrl}${c.req.path}`;
-    const searchParams = new URLSearchParams();
-    
-    // Copy query parameters
-    const url = new URL(c.req.url);
-    url.searchParams.forEach((value, key) => {
-      searchParams.append(key, value);
-    });
-
-    const finalUrl = searchParams.toString() 
-      ? `${targetUrl}?${searchParams.toString()}`
-      : targetUrl;
-
-    // Prepare headers (exclude original Authorization header and cookies)
-    const headers: Record<string, string> = {
-      'Authorization': `Bearer ${tinybirdToken}`,
-      'Content-Type': 'application/json',
     };
 
-    // Copy other headers (excluding authorization, cookies, and host)
-    const requestHeaders = c.req.header();
-    Object.entries(requestHeaders).forEach(([key, value]) => {
-      const lowerKey = key.toLowerCase();
-      if (lowerKey !== 'authorization' && 
-          lowerKey !== 'host' && 
-          lowerKey !== 'cookie' &&
-          typeof value === 'string') {
-        headers[key] = value;
-      }
-    });
-
-    // Get request body if present
-    let requestBody: any = undefined;
-    if (c.req.method !== 'GET' && c.req.method !== 'HEAD') {
-      try {
-        const contentType = c.req.header('content-type');
-        if (contentType?.includes('application/json')) {
-          requestBody = await c.req.json();
-        } else {
-          requestBody = await c.req.text();
-        }
-      } catch (error) {
-        console.warn('Failed to parse request body:', error);
-      }
+    // Pipes with a cache policy are served from the response cache when possible
+    if (isCacheable(c, pipe)) {
+      return await serveWithCache(c, pipe, fetchUpstream);
     }
 
-    console.log(`Forwarding ${c.req.method} request to: ${finalUrl}`);
+    const response = await fetchUpstream({});
+    ctx.set('upstreamStatus', response.status);
 
-    // Forward request to Tinybird
-    const tinybirdTimer = metrics.startTimer(MetricNames.TINYBIRD_REQUEST_DURATION);
-    
-    try {
-      const response = await axios({
-        method: c.req.method.toLowerCase() as any,
-        url: finalUrl,
-        headers,
-        data: requestBody,
-        timeout: 30000, // 30 second timeout
-        validateStatus: () => true, // Don't throw on HTTP error status codes
-      });
-
-      tinybirdTimer();
-      metrics.incrementCounter(MetricNames.TINYBIRD_REQUEST_TOTAL, 1, {
-        status: String(response.status),
-        method: c.req.method,
-      });
-
-      // Forward response headers (excluding set-cookie for security)
-      const responseHeaders: Record<string, string> = {};
-      Object.entries(response.headers).forEach(([key, value]) => {
-        if (typeof value === 'string' && key.toLowerCase() !== 'set-cookie') {
-          responseHeaders[key] = value;
-        }
-      });
-
-      // Return the response
-      return c.json(response.data, response.status as any, responseHeaders);
-      
-    } catch (error) {
-      tinybirdTimer();
-      metrics.incrementCounter(MetricNames.TINYBIRD_REQUEST_ERROR);
-      throw error;
-    }
+    // Return the upstream body as-is, keeping its content type and encoding
+    return c.body(response.body as any, response.status as any, response.headers);
 
   } catch (error) {
-    console.error('Proxy error:', error);
+    log.error('Proxy error', { error });
     
-    if (axios.isAxiosError(error)) {
-      const statusCode = error.response?.status || 500;
-      const message = error.response?.data?.error || error.message;
-      return c.json({ error: `Tinybird request failed: ${message}` }, statusCode as any);
+    if (error instanceof UpstreamError) {
+      if (error.retryAfterMs !== undefined) {
+        c.header('Retry-After', String(Math.max(1, Math.ceil(error.retryAfterMs / 1000))));
+      }
+      return c.json({
+        error: error.message,
+        code: error.code,
+        timestamp: new Date().toISOString()
+      }, error.statusCode as any);
     }
 
     return c.json({ error: 'Internal server error' }, 500 as any);
-  } finally {
-    requestTimer();
   }
+}
+
+// Main proxy handler for all Tinybird requests
+// Only routes allowed by the route policy, within the user's rate limits, reach the forwarder
+app.all('*', routePolicyMiddleware, rateLimitMiddleware, async (c) => {
+  const startedAt = Date.now();
+  const response = await proxyToTinybird(c);
+
+  // Every proxied request is audited once its response has been sent
+  return auditResponse(c, response, startedAt);
 });
 
 // Start server
 const port = parseInt(process.env.PORT || '3000');
 
-console.log(`Starting authentication proxy server on port ${port}`);
-console.log(`Environment: ${process.env.NODE_ENV || 'production'}`);
-console.log(`Redis pool: min=${redisPool.getStats().total} connections`);
-console.log(`Cookie-based authentication enabled with CORS credentials support`);
+// Fail fast on an invalid pipe registry, rate limit, audit, upstream, location stream or fleet API config instead of rejecting every request
+let pipeRegistry: PipeRegistry;
+let rateLimitConfig: RateLimitConfig;
+let traceExporter: TraceExporter;
+let auditLogger: AuditLogger;
+let tinybirdUpstream: TinybirdUpstream;
+let locationStreamHub: LocationStreamHub;
+let geofenceEngine: GeofenceEngine;
+let fleetApiConfig: FleetApiConfig;
+try {
+  pipeRegistry = getPipeRegistry();
+  rateLimitConfig = getRateLimitConfig();
+  traceExporter = initTracing();
+  auditLogger = getAuditLogger();
+  tinybirdUpstream = getTinybirdUpstream();
+  locationStreamHub = getLocationStreamHub();
+  geofenceEngine = getGeofenceEngine();
+  fleetApiConfig = getFleetApiConfig();
+} catch (error) {
+  log.error('Invalid configuration', { error: error instanceof Error ? error.message : error });
+  process.exit(1);
+}
+
+log.info('Starting authentication proxy server', {
+  port,
+  environment: process.env.NODE_ENV || 'production',
+  redisMode: getRedisConfig().mode,
+  redisReadsFromReplicas: redisReadPool !== redisPool,
+  pipes: pipeRegistry.pipes.map(p => p.name),
+  rateLimitTiers: Object.keys(rateLimitConfig.tiers),
+  defaultRateLimitTier: rateLimitConfig.defaultTier,
+  traceExporter,
+  auditSinks: auditLogger.sinkNames,
+  tinybirdRegions: tinybirdUpstream.regionNames,
+  fleetApiPipes: [fleetApiConfig.locationPipe, fleetApiConfig.historyPipe],
+});
 
-serve({
+const server = serve({
   fetch: app.fetch,
   port,
 });
 
+// Accept WebSocket upgrades for /stream/locations
+injectWebSocket(server);
+
+// Listen for cache invalidations from other replicas
+cache.start();
+
+// Write buffered audit records in the background
+auditLogger.start();
+
+// Evaluate truck positions against geofences
+geofenceEngine.start();
+
 // Update pool metrics periodically
 setInterval(() => {
   const stats = redisPool.getStats();
   metrics.setGauge(MetricNames.POOL_CONNECTIONS_ACTIVE, stats.inUse);
   metrics.setGauge(MetricNames.POOL_CONNECTIONS_IDLE, stats.available);
   metrics.setGauge(MetricNames.POOL_CONNECTIONS_TOTAL, stats.total);
+  metrics.setGauge(MetricNames.POOL_WAITING_CLIENTS, stats.waiting);
 }, 10000); // Every 10 seconds
 
 // Graceful shutdown
 process.on('SIGINT', async () => {
-  console.log('Received SIGINT, shutting down gracefully...');
+  log.info('Received SIGINT, shutting down gracefully');
+  geofenceEngine.shutdown();
+  locationStreamHub.shutdown();
+  // Flush audit records first; the redis sink needs the pool
+  await auditLogger.shutdown();
   await dragonflyClient.disconnect();
+  await cache.shutdown();
   await redisPool.shutdown();
+  if (redisReadPool !== redisPool) {
+    await redisReadPool.shutdown();
+  }
+  await shutdownTracing();
   process.exit(0);
 });
 
 process.on('SIGTERM', async () => {
-  console.log('Received SIGTERM, shutting down gracefully...');
+  log.info('Received SIGTERM, shutting down gracefully');
+  geofenceEngine.shutdown();
+  locationStreamHub.shutdown();
+  // Flush audit records first; the redis sink needs the pool
+  await auditLogger.shutdown();
   await dragonflyClient.disconnect();
+  await cache.shutdown();
   await redisPool.shutdown();
+  if (redisReadPool !== redisPool) {
+    await redisReadPool.shutdown();
+  }
+  await shutdownTracing();
   process.exit(0);
 }); 
\ No newline at end of file
@@ -0,0 +1,639 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { Context, Next } from 'hono';
+import { streamSSE, SSEStreamingApi } from 'hono/streaming';
+import type { WSContext, WSEvents } from 'hono/ws';
+import { AuthUser } from './auth.js';
+import { getPipe, getPipeTrucks, PipeDefinition } from './pipeRegistry.js';
+import { getTruckAccessDetails, getTruckRegistrationNos } from './truckFetcher.js';
+import { getTinybirdTokenForUser } from './tokenService.js';
+import { getTinybirdUpstream, TinybirdUpstream } from './tinybirdUpstream.js';
+import { getRequestedTrucks } from './requestedTrucks.js';
+import { assertPipeAccess, assertTruckAccess, RoutePolicyError, TruckAccessDeniedError } from './routePolicy.js';
+import { canonicalRegistrationNo, normalizeRegistrationNos, RegistrationNoError } from './registrationNo.js';
+import { metrics, MetricNames } from './metrics.js';
+import { logger } from './logger.js';
+
+const log = logger.child({ module: 'locationStream' });
+
+/**
+ * How live locations are polled and pushed, read from the environment
+ */
+export interface LocationStreamConfig {
+  pipe: string;
+  // Row column holding the registration number; defaults to the pipe's first RLS parameter
+  registrationField: string;
+  pollIntervalMs: number;
+  heartbeatIntervalMs: number;
+  // Recent events kept per truck set for Last-Event-ID resume
+  replayBufferSize: number;
+  // How long a truck set keeps polling after its last subscriber leaves,
+  // so a reconnecting client can resume rather than start over
+  idleTimeoutMs: number;
+  maxStreamsPerUser: number;
+}
+
+export class LocationStreamError extends Error {
+  constructor(message: string, public statusCode: number = 400, public code: string = 'LOCATION_STREAM_ERROR') {
+    super(message);
+    this.name = 'LocationStreamError';
+  }
+}
+
+/**
+ * Messages sent to subscribers, as SSE events (`event: <type>`) or
+ * WebSocket text frames (JSON with `type`)
+ */
+export type StreamMessage =
+  | { type: 'location'; id: string; registrationNo: string; position: Record<string, unknown> }
+  | { type: 'heartbeat'; timestamp: string }
+  | { type: 'error'; code: string; error: string };
+
+/**
+ * One client connection, whichever transport it uses
+ */
+export interface StreamSubscriber {
+  send(message: StreamMessage): void;
+  // WebSocket close code; ignored by SSE
+  close(code: number): void;
+}
+
+/**
+ * A validated subscription request
+ */
+export interface LocationStreamRequest {
+  userId: string;
+  // Every truck the pipe grants the user, in canonical form and sorted
+  trucks: string[];
+  // Trucks the client asked for; empty for all of them
+  filter: string[];
+  lastEventId: string | null;
+}
+
+// WebSocket close codes
+const CLOSE_GOING_AWAY = 1001;
+const CLOSE_POLICY_VIOLATION = 1008;
+
+// How long a validated request holds its stream slot without subscribing,
+// e.g. a WebSocket upgrade that never completes
+const RESERVATION_TIMEOUT_MS = 30000;
+
+/**
+ * Read and validate the stream settings, throwing LocationStreamError on
+ * the first problem
+ */
+export function loadLocationStreamConfig(env: NodeJS.ProcessEnv = process.env): LocationStreamConfig {
+  const pipeName = env.LOCATION_STREAM_PIPE || 'truck_location_endpoint';
+  const pipe = getPipe(pipeName);
+  if (!pipe) {
+    throw new LocationStreamError(`LOCATION_STREAM_PIPE "${pipeName}" is not in the pipe registry`, 500, 'LOCATION_STREAM_NOT_CONFIGURED');
+  }
+
+  const registrationField = env.LOCATION_STREAM_REGISTRATION_FIELD || pipe.rlsParams[0];
+  if (!registrationField) {
+    throw new LocationStreamError(`Pipe ${pipeName} has no RLS parameter; set LOCATION_STREAM_REGISTRATION_FIELD`, 500, 'LOCATION_STREAM_NOT_CONFIGURED');
+  }
+
+  const config: LocationStreamConfig = {
+    pipe: pipeName,
+    registrationField,
+    pollIntervalMs: parseInt(env.LOCATION_STREAM_POLL_INTERVAL_MS || '5000'),
+    heartbeatIntervalMs: parseInt(env.LOCATION_STREAM_HEARTBEAT_MS || '15000'),
+    replayBufferSize: parseInt(env.LOCATION_STREAM_REPLAY_SIZE || '1000'),
+    idleTimeoutMs: parseInt(env.LOCATION_STREAM_IDLE_TIMEOUT_MS || '60000'),
+    maxStreamsPerUser: parseInt(env.LOCATION_STREAM_MAX_PER_USER || '10'),
+  };
+
+  if (!(config.pollIntervalMs >= 1000)) {
+    throw new LocationStreamError('LOCATION_STREAM_POLL_INTERVAL_MS must be at least 1000', 500, 'LOCATION_STREAM_NOT_CONFIGURED');
+  }
+  return config;
+}
+
+/**
+ * Trucks the stream pipe grants the user, in canonical form and sorted
+ */
+async function getStreamTrucks(userId: string, pipe: string): Promise<string[]> {
+  const trucks = getPipeTrucks(await getTruckAccessDetails(userId)).get(pipe) ?? [];
+  return [...new Set(trucks.map(canonicalRegistrationNo))].sort();
+}
+
+function getTruckSetKey(trucks: string[]): string {
+  return createHash('sha256').update(trucks.join(',')).digest('hex').substring(0, 16);
+}
+
+interface Subscription {
+  request: LocationStreamRequest;
+  filter: Set<string> | null;
+  subscriber: StreamSubscriber;
+}
+
+interface LocationEvent {
+  seq: number;
+  id: string;
+  registrationNo: string;
+  position: Record<string, unknown>;
+  serialized: string; // Row as received, to detect changes
+}
+
+/**
+ * Polls the stream pipe for one truck set and fans changed positions out
+ * to every subscription on that set. Event IDs are `<generation>.<seq>`;
+ * the generation changes whenever a poller is created, so IDs from a
+ * previous poller (or another replica) are recognised as unknown.
+ */
+class TruckSetPoller {
+  private subscriptions = new Set<Subscription>();
+  private latest = new Map<string, LocationEvent>();
+  private recent: LocationEvent[] = [];
+  private generation = randomBytes(4).toString('hex');
+  private seq = 0;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private idleTimer: NodeJS.Timeout | null = null;
+  private truckSet: Set<string>;
+  private stopped = false;
+
+  constructor(
+    public readonly key: string,
+    trucks: string[],
+    private pipe: PipeDefinition,
+    private config: LocationStreamConfig,
+    private upstream: TinybirdUpstream,
+    private onIdle: (poller: TruckSetPoller) => void
+  ) {
+    this.truckSet = new Set(trucks);
+    this.heartbeatTimer = setInterval(() => this.heartbeat(), config.heartbeatIntervalMs);
+    this.heartbeatTimer.unref();
+    this.schedulePoll(0);
+  }
+
+  get subscriberCount(): number {
+    return this.subscriptions.size;
+  }
+
+  get subscribers(): Subscription[] {
+    return [...this.subscriptions];
+  }
+
+  add(subscription: Subscription): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+    this.subscriptions.add(subscription);
+
+    // Catch the client up: events since Last-Event-ID when this poller still
+    // has them, otherwise the latest known position of each truck
+    this.replay(subscription.request.lastEventId)
+      .filter(event => this.matches(subscription, event))
+      .forEach(event => this.deliver(subscription, event));
+  }
+
+  remove(subscription: Subscription): void {
+    if (!this.subscriptions.delete(subscription) || this.subscriptions.size > 0 || this.stopped) {
+      return;
+    }
+    this.idleTimer = setTimeout(() => this.onIdle(this), this.config.idleTimeoutMs);
+    this.idleTimer.unref();
+  }
+
+  stop(): void {
+    this.stopped = true;
+    [this.pollTimer, this.idleTimer].forEach(timer => timer && clearTimeout(timer));
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+    }
+  }
+
+  private replay(lastEventId: string | null): LocationEvent[] {
+    const [generation, seq] = lastEventId?.split('.') ?? [];
+    const lastSeq = parseInt(seq);
+    const oldestSeq = this.recent[0]?.seq ?? this.seq + 1;
+    if (generation === this.generation && lastSeq >= oldestSeq - 1 && lastSeq <= this.seq) {
+      return this.recent.filter(event => event.seq > lastSeq);
+    }
+    return [...this.latest.values()].sort((a, b) => a.seq - b.seq);
+  }
+
+  private matches(subscription: Subscription, event: LocationEvent): boolean {
+    return !subscription.filter || subscription.filter.has(event.registrationNo);
+  }
+
+  private deliver(subscription: Subscription, event: LocationEvent): void {
+    subscription.subscriber.send({
+      type: 'location',
+      id: event.id,
+      registrationNo: event.registrationNo,
+      position: event.position,
+    });
+  }
+
+  private heartbeat(): void {
+    const timestamp = new Date().toISOString();
+    this.subscriptions.forEach(subscription => subscription.subscriber.send({ type: 'heartbeat', timestamp }));
+  }
+
+  private schedulePoll(delayMs: number): void {
+    if (this.stopped) {
+      return;
+    }
+    this.pollTimer = setTimeout(() => {
+      this.poll().finally(() => this.schedulePoll(this.config.pollIntervalMs));
+    }, delayMs);
+    this.pollTimer.unref();
+  }
+
+  private async poll(): Promise<void> {
+    const userId = this.subscribers[0]?.request.userId;
+    if (!userId) {
+      return;
+    }
+
+    try {
+      // Any subscriber's token works: it is scoped to this same truck set
+      const token = await getTinybirdTokenForUser(userId);
+      const response = await this.upstream.fetchPipe(this.pipe, new URLSearchParams(), token);
+      if (response.status !== 200) {
+        await response.body?.cancel();
+        throw new Error(`Tinybird responded with ${response.status}`);
+      }
+
+      const result = await new Response(response.body).json() as { data?: Record<string, unknown>[] };
+      (result.data ?? []).forEach(row => this.publish(row));
+    } catch (error) {
+      metrics.incrementCounter(MetricNames.LOCATION_STREAM_POLL_ERROR, 1);
+      log.warn('Location poll failed', { truckSet: this.key, error });
+    }
+  }
+
+  private publish(row: Record<string, unknown>): void {
+    const value = row[this.config.registrationField];
+    if (typeof value !== 'string' && typeof value !== 'number') {
+      return;
+    }
+
+    const registrationNo = canonicalRegistrationNo(String(value));
+    const serialized = JSON.stringify(row);
+    if (!this.truckSet.has(registrationNo) || this.latest.get(registrationNo)?.serialized === serialized) {
+      return;
+    }
+
+    const seq = ++this.seq;
+    const event: LocationEvent = { seq, id: `${this.generation}.${seq}`, registrationNo, position: row, serialized };
+    this.latest.set(registrationNo, event);
+    this.recent.push(event);
+    if (this.recent.length > this.config.replayBufferSize) {
+      this.recent.shift();
+    }
+
+    metrics.incrementCounter(MetricNames.LOCATION_STREAM_EVENTS, 1);
+    this.subscriptions.forEach(subscription => {
+      if (this.matches(subscription, event)) {
+        this.deliver(subscription, event);
+      }
+    });
+  }
+}
+
+/**
+ * Live truck locations for SSE and WebSocket clients. Subscribers whose
+ * users share a truck set share one poller, so a fleet dashboard open in
+ * many tabs costs one Tinybird query per poll interval. Subscriptions are
+ * closed when the user's truck access changes; the client reconnects and
+ * resumes on its new truck set.
+ */
+export class LocationStreamHub {
+  private pollers = new Map<string, TruckSetPoller>();
+  private streamsPerUser = new Map<string, number>();
+  // Requests holding a stream slot from prepare() until they subscribe
+  private reservations = new Map<LocationStreamRequest, NodeJS.Timeout>();
+  private accessCheckTimer: NodeJS.Timeout;
+
+  constructor(
+    private config: LocationStreamConfig,
+    private upstream: TinybirdUpstream = getTinybirdUpstream()
+  ) {
+    this.accessCheckTimer = setInterval(() => {
+      this.checkAccess().catch(error => log.warn('Truck access check for location streams failed', { error }));
+    }, config.pollIntervalMs);
+    this.accessCheckTimer.unref();
+  }
+
+  get pipe(): PipeDefinition {
+    return getPipe(this.config.pipe)!;
+  }
+
+  /**
+   * Validate a subscription request: the user must have trucks on the
+   * stream pipe, any `registrationNo` filter must name trucks they can see,
+   * and they must be under their concurrent stream limit.
+   *
+   * The request reserves one of the user's stream slots, so concurrent
+   * connects can't exceed the limit. subscribe() takes the slot over;
+   * release() gives it back if the stream never starts, and it is released
+   * anyway after RESERVATION_TIMEOUT_MS.
+   * Throws LocationStreamError, RoutePolicyError or RegistrationNoError
+   */
+  async prepare(userId: string, searchParams: URLSearchParams, lastEventId: string | null): Promise<LocationStreamRequest> {
+    this.assertStreamSlot(userId);
+
+    await assertPipeAccess(userId, this.config.pipe);
+    const trucks = await getStreamTrucks(userId, this.config.pipe);
+
+    const filter = normalizeRegistrationNos(getRequestedTrucks(this.pipe, searchParams), await getTruckRegistrationNos(userId));
+    await assertTruckAccess(userId, this.config.pipe, filter);
+
+    // Checked again, since other connects may have reserved slots meanwhile
+    this.assertStreamSlot(userId);
+    const request: LocationStreamRequest = { userId, trucks, filter, lastEventId: lastEventId || searchParams.get('lastEventId') };
+    this.addStream(userId);
+    const timer = setTimeout(() => this.release(request), RESERVATION_TIMEOUT_MS);
+    timer.unref();
+    this.reservations.set(request, timer);
+    return request;
+  }
+
+  /**
+   * Give back the stream slot of a prepared request that never subscribed.
+   * Does nothing once it has subscribed or been released.
+   */
+  release(request: LocationStreamRequest): void {
+    const timer = this.reservations.get(request);
+    if (!timer) {
+      return;
+    }
+    clearTimeout(timer);
+    this.reservations.delete(request);
+    this.removeStream(request.userId);
+  }
+
+  /**
+   * Start delivering messages to a subscriber. Returns a function that
+   * ends the subscription; it is safe to call more than once.
+   */
+  subscribe(request: LocationStreamRequest, subscriber: StreamSubscriber): () => void {
+    return this.attach(request, subscriber, true);
+  }
+
+  /**
+   * Follow every truck the stream pipe grants a user, on the proxy's own
+   * behalf (geofence evaluation). Shares polls with client streams but does
+   * not count against the user's stream limit.
+   */
+  async watch(userId: string, subscriber: StreamSubscriber): Promise<() => void> {
+    const trucks = await getStreamTrucks(userId, this.config.pipe);
+    if (trucks.length === 0) {
+      return () => {};
+    }
+    return this.attach({ userId, trucks, filter: [], lastEventId: null }, subscriber, false);
+  }
+
+  private attach(request: LocationStreamRequest, subscriber: StreamSubscriber, counted: boolean): () => void {
+    const key = getTruckSetKey(request.trucks);
+    let poller = this.pollers.get(key);
+    if (!poller) {
+      poller = new TruckSetPoller(key, request.trucks, this.pipe, this.config, this.upstream, idle => this.removePoller(idle));
+      this.pollers.set(key, poller);
+    }
+
+    const subscription: Subscription = {
+      request,
+      filter: request.filter.length > 0 ? new Set(request.filter) : null,
+      subscriber,
+    };
+    if (counted) {
+      // Take over the slot reserved by prepare(), or count the stream again
+      // when the reservation has already timed out
+      const timer = this.reservations.get(request);
+      if (timer) {
+        clearTimeout(timer);
+        this.reservations.delete(request);
+      } else {
+        this.addStream(request.userId);
+      }
+    }
+    poller.add(subscription);
+    this.updateGauges();
+
+    let active = true;
+    const target = poller;
+    return () => {
+      if (!active) {
+        return;
+      }
+      active = false;
+      target.remove(subscription);
+      if (counted) {
+        this.removeStream(request.userId);
+      }
+      this.updateGauges();
+    };
+  }
+
+  private assertStreamSlot(userId: string): void {
+    if ((this.streamsPerUser.get(userId) ?? 0) >= this.config.maxStreamsPerUser) {
+      throw new LocationStreamError(`At most ${this.config.maxStreamsPerUser} live location streams per user`, 429, 'TOO_MANY_STREAMS');
+    }
+  }
+
+  private addStream(userId: string): void {
+    this.streamsPerUser.set(userId, (this.streamsPerUser.get(userId) ?? 0) + 1);
+  }
+
+  private removeStream(userId: string): void {
+    const remaining = (this.streamsPerUser.get(userId) ?? 1) - 1;
+    if (remaining > 0) {
+      this.streamsPerUser.set(userId, remaining);
+    } else {
+      this.streamsPerUser.delete(userId);
+    }
+  }
+
+  getStats() {
+    const pollers = [...this.pollers.values()];
+    return {
+      truckSets: pollers.length,
+      subscribers: pollers.reduce((total, poller) => total + poller.subscriberCount, 0),
+    };
+  }
+
+  /**
+   * Close every stream and stop polling
+   */
+  shutdown(): void {
+    clearInterval(this.accessCheckTimer);
+    this.reservations.forEach(timer => clearTimeout(timer));
+    this.reservations.clear();
+    this.pollers.forEach(poller => {
+      poller.stop();
+      poller.subscribers.forEach(subscription => subscription.subscriber.close(CLOSE_GOING_AWAY));
+    });
+    this.pollers.clear();
+    this.updateGauges();
+  }
+
+  /**
+   * Close subscriptions whose user no longer has the truck set they
+   * subscribed to (a grant was added, revoked or expired)
+   */
+  private async checkAccess(): Promise<void> {
+    for (const poller of this.pollers.values()) {
+      const byUser = new Map<string, Subscription[]>();
+      poller.subscribers.forEach(subscription => {
+        byUser.set(subscription.request.userId, [...(byUser.get(subscription.request.userId) ?? []), subscription]);
+      });
+
+      for (const [userId, subscriptions] of byUser) {
+        const trucks = await getStreamTrucks(userId, this.config.pipe);
+        if (getTruckSetKey(trucks) === poller.key) {
+          continue;
+        }
+
+        log.info('Closing location streams after a truck access change', { userId, streams: subscriptions.length });
+        subscriptions.forEach(({ subscriber }) => {
+          subscriber.send({ type: 'error', code: 'TRUCK_ACCESS_CHANGED', error: 'Your truck access has changed; reconnect to continue' });
+          subscriber.close(CLOSE_POLICY_VIOLATION);
+        });
+      }
+    }
+  }
+
+  private removePoller(poller: TruckSetPoller): void {
+    if (poller.subscriberCount > 0 || this.pollers.get(poller.key) !== poller) {
+      return;
+    }
+    poller.stop();
+    this.pollers.delete(poller.key);
+    this.updateGauges();
+  }
+
+  private updateGauges(): void {
+    const stats = this.getStats();
+    metrics.setGauge(MetricNames.LOCATION_STREAM_TRUCK_SETS, stats.truckSets);
+    metrics.setGauge(MetricNames.LOCATION_STREAM_SUBSCRIBERS, stats.subscribers);
+  }
+}
+
+let locationStreamHub: LocationStreamHub | null = null;
+
+/**
+ * Get the live location hub, creating it from the environment on first use
+ */
+export function getLocationStreamHub(): LocationStreamHub {
+  if (!locationStreamHub) {
+    locationStreamHub = new LocationStreamHub(loadLocationStreamConfig());
+  }
+  return locationStreamHub;
+}
+
+/**
+ * Validate a `/stream/locations` request before it is upgraded or starts
+ * streaming, so problems are reported as ordinary JSON errors.
+ * The validated request is attached to the context as `locationStream`,
+ * and its stream slot is released if the response doesn't start a stream.
+ */
+export const locationStreamMiddleware = async (c: Context, next: Next) => {
+  const user = c.get('user') as AuthUser;
+  let request: LocationStreamRequest;
+
+  try {
+    request = await getLocationStreamHub().prepare(
+      user.userId,
+      new URL(c.req.url).searchParams,
+      c.req.header('Last-Event-ID') ?? null
+    );
+    c.set('locationStream', request);
+  } catch (error) {
+    if (error instanceof LocationStreamError || error instanceof RoutePolicyError) {
+      return c.json({
+        error: error.message,
+        code: error.code,
+        ...(error instanceof TruckAccessDeniedError && { unauthorizedTrucks: error.unauthorizedTrucks }),
+        timestamp: new Date().toISOString()
+      }, error.statusCode as any);
+    }
+    if (error instanceof RegistrationNoError) {
+      return c.json({
+        error: error.message,
+        code: error.code,
+        invalidRegistrationNos: error.invalidValues,
+        timestamp: new Date().toISOString()
+      }, 400 as any);
+    }
+
+    log.error('Location stream check failed', { error });
+    return c.json({ error: 'Internal server error' }, 500 as any);
+  }
+
+  try {
+    await next();
+  } finally {
+    if (c.error || c.res.status >= 400) {
+      getLocationStreamHub().release(request);
+    }
+  }
+};
+
+function writeSSEMessage(stream: SSEStreamingApi, message: StreamMessage): Promise<void> {
+  if (message.type === 'location') {
+    const { type, id, ...data } = message;
+    return stream.writeSSE({ event: type, id, data: JSON.stringify(data) });
+  }
+  const { type, ...data } = message;
+  return stream.writeSSE({ event: type, data: JSON.stringify(data) });
+}
+
+/**
+ * Serve a validated stream request as Server-Sent Events
+ */
+export function streamLocationsSSE(c: Context): Response {
+  const request = c.get('locationStream') as LocationStreamRequest;
+
+  return streamSSE(c, async (stream) => {
+    // Keep writes in order; writeSSE is async
+    let writes = stream.writeSSE({ event: 'ready', data: '{}', retry: 5000 });
+
+    await new Promise<void>(resolve => {
+      const unsubscribe = getLocationStreamHub().subscribe(request, {
+        send: message => {
+          writes = writes.then(() => writeSSEMessage(stream, message)).catch(() => {
+            unsubscribe();
+            resolve();
+          });
+        },
+        close: () => {
+          unsubscribe();
+          writes.finally(resolve);
+        },
+      });
+      stream.onAbort(() => {
+        unsubscribe();
+        resolve();
+      });
+    });
+  });
+}
+
+/**
+ * WebSocket events for a validated stream request. Messages are JSON text
+ * frames; anything the client sends is ignored.
+ */
+export function streamLocationsWebSocket(c: Context): WSEvents {
+  const request = c.get('locationStream') as LocationStreamRequest;
+  let unsubscribe: (() => void) | null = null;
+
+  return {
+    onOpen: (_event, ws: WSContext) => {
+      unsubscribe = getLocationStreamHub().subscribe(request, {
+        send: message => ws.send(JSON.stringify(message)),
+        close: code => {
+          unsubscribe?.();
+          ws.close(code);
+        },
+      });
+    },
+    onClose: () => {
+      unsubscribe?.();
+    },
+  };
+}
@@ -0,0 +1,203 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { trace } from '@opentelemetry/api';
+
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error'] as const;
+export type LogLevel = typeof LOG_LEVELS[number];
+
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Per-request values attached to every log line written while handling it
+ */
+export interface LogContext {
+  requestId: string;
+}
+
+const REDACTED = '[REDACTED]';
+
+// Field names whose values are never logged (case-insensitive)
+const DEFAULT_REDACT_KEYS = 'authorization,cookie,set-cookie,token,tinybirdtoken,password,secret,jwt,access_token,auth_token';
+
+// Query parameters whose values are removed from logged URLs; `*` means all
+const DEFAULT_REDACT_QUERY_PARAMS = '*';
+
+// Nested objects below this depth are not logged
+const MAX_DEPTH = 5;
+
+const URL_PATTERN = /https?:\/\/[^\s"'<>]+/g;
+
+interface LoggerConfig {
+  level: LogLevel;
+  redactKeys: Set<string>;
+  redactQueryParams: Set<string>;
+}
+
+let loggerConfig: LoggerConfig | null = null;
+
+function parseList(value: string): Set<string> {
+  return new Set(value.split(',').map(v => v.trim().toLowerCase()).filter(Boolean));
+}
+
+/**
+ * Read LOG_LEVEL, LOG_REDACT_KEYS and LOG_REDACT_QUERY_PARAMS on first use
+ */
+function getLoggerConfig(): LoggerConfig {
+  if (!loggerConfig) {
+    const level = (process.env.LOG_LEVEL || 'info').toLowerCase() as LogLevel;
+    loggerConfig = {
+      level: LOG_LEVELS.includes(level) ? level : 'info',
+      redactKeys: parseList(process.env.LOG_REDACT_KEYS ?? DEFAULT_REDACT_KEYS),
+      redactQueryParams: parseList(process.env.LOG_REDACT_QUERY_PARAMS ?? DEFAULT_REDACT_QUERY_PARAMS),
+    };
+  }
+  return loggerConfig;
+}
+
+const logContext = new AsyncLocalStorage<LogContext>();
+
+/**
+ * Run `fn` with a log context that every log line inside it will carry
+ */
+export function runWithLogContext<T>(context: LogContext, fn: () => T): T {
+  return logContext.run(context, fn);
+}
+
+export function getLogContext(): LogContext | undefined {
+  return logContext.getStore();
+}
+
+/**
+ * Decode a query parameter name, or return it as-is when it is malformed
+ * (`%E0`), so logging never throws
+ */
+function decodeParamName(key: string): string {
+  try {
+    return decodeURIComponent(key);
+  } catch {
+    return key;
+  }
+}
+
+/**
+ * Replace the values of redacted query parameters in a URL
+ */
+export function redactUrl(url: string): string {
+  const { redactQueryParams } = getLoggerConfig();
+  const queryStart = url.indexOf('?');
+  if (queryStart === -1 || redactQueryParams.size === 0) {
+    return url;
+  }
+
+  const redactAll = redactQueryParams.has('*');
+  const query = url.substring(queryStart + 1).split('&').map(pair => {
+    const [key] = pair.split('=');
+    return redactAll || redactQueryParams.has(decodeParamName(key).toLowerCase())
+      ? `${key}=${REDACTED}`
+      : pair;
+  });
+
+  return `${url.substring(0, queryStart)}?${query.join('&')}`;
+}
+
+function serializeError(error: Error): LogFields {
+  const serialized: LogFields = { name: error.name, message: error.message };
+  const withCode = error as Error & { code?: unknown; statusCode?: unknown };
+  if (withCode.code !== undefined) {
+    serialized.code = withCode.code;
+  }
+  if (withCode.statusCode !== undefined) {
+    serialized.statusCode = withCode.statusCode;
+  }
+  serialized.stack = error.stack;
+  return serialized;
+}
+
+/**
+ * Copy a value for logging: errors become plain objects, redacted keys are
+ * masked and query strings are stripped from URLs found in strings
+ */
+function redact(value: unknown, depth: number = 0): unknown {
+  if (typeof value === 'string') {
+    return value.replace(URL_PATTERN, redactUrl);
+  }
+  if (value instanceof Error) {
+    return redact(serializeError(value), depth);
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (depth >= MAX_DEPTH) {
+    return '[Truncated]';
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, depth + 1));
+  }
+
+  const { redactKeys } = getLoggerConfig();
+  const copy: LogFields = {};
+  Object.entries(value).forEach(([key, entry]) => {
+    copy[key] = redactKeys.has(key.toLowerCase()) ? REDACTED : redact(entry, depth + 1);
+  });
+  return copy;
+}
+
+/**
+ * Structured JSON logger. Each entry is one line on stdout with the time,
+ * level, message, the logger's bindings (e.g. `module`), the current
+ * request ID and trace ID, and any fields passed in.
+ */
+export class Logger {
+  constructor(private bindings: LogFields = {}) {}
+
+  /**
+   * Create a logger that adds `bindings` to every entry
+   */
+  child(bindings: LogFields): Logger {
+    return new Logger({ ...this.bindings, ...bindings });
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.write('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.write('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.write('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.write('error', message, fields);
+  }
+
+  isLevelEnabled(level: LogLevel): boolean {
+    return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(getLoggerConfig().level);
+  }
+
+  private write(level: LogLevel, message: string, fields?: LogFields): void {
+    if (!this.isLevelEnabled(level)) {
+      return;
+    }
+
+    const spanContext = trace.getActiveSpan()?.spanContext();
+    const entry = redact({
+      time: new Date().toISOString(),
+      level,
+      msg: message,
+      ...this.bindings,
+      requestId: getLogContext()?.requestId,
+      traceId: spanContext?.traceId,
+      ...fields,
+    }) as LogFields;
+
+    process.stdout.write(`${JSON.stringify(entry)}\n`);
+  }
+}
+
+// Root logger; modules create children with `logger.child({ module: '...' })`
+export const logger = new Logger();
@@ -1,6 +1,9 @@
 /**
  * Metrics collection for monitoring proxy performance
  */
+import { logger } from './logger.js';
+
+const log = logger.child({ module: 'metrics' });
 
 export interface MetricData {
   timestamp: number;
@@ -13,50 +16,230 @@ export interface HistogramBucket {
   count: number;
 }
 
+export type MetricType = 'counter' | 'gauge' | 'histogram';
+
+/**
+ * Static description of a metric: its help text and, for histograms,
+ * the bucket upper bounds
+ */
+export interface MetricDefinition {
+  help: string;
+  buckets?: number[];
+}
+
+// Default histogram buckets for response times (in ms)
+export const DEFAULT_BUCKETS = [10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000];
+
+// Label value recorded once a label has reached its cap on distinct values
+const OVERFLOW_LABEL_VALUE = 'other';
+
+// Percentiles reported by getMetricsSummary
+const SUMMARY_QUANTILES = [0.5, 0.9, 0.95, 0.99];
+
+/**
+ * Streaming quantile estimate using the P² algorithm (Jain & Chlamtac, 1985).
+ * Keeps five markers instead of the observations, so memory is constant.
+ */
+export class P2Quantile {
+  private heights: number[] = [];
+  private positions: number[] = [];
+  private desired: number[] = [];
+  private increments: number[];
+  private count: number = 0;
+
+  constructor(private p: number) {
+    this.increments = [0, p / 2, p, (1 + p) / 2, 1];
+  }
+
+  add(value: number): void {
+    this.count++;
+
+    if (this.count <= 5) {
+      this.heights.push(value);
+      if (this.count === 5) {
+        this.heights.sort((a, b) => a - b);
+        this.positions = [1, 2, 3, 4, 5];
+        this.desired = [1, 1 + 2 * this.p, 1 + 4 * this.p, 3 + 2 * this.p, 5];
+      }
+      return;
+    }
+
+    const q = this.heights;
+    const n = this.positions;
+
+    // Find the cell the value falls in, extending the extremes if needed
+    let k: number;
+    if (value < q[0]) {
+      q[0] = value;
+      k = 0;
+    } else if (value >= q[4]) {
+      q[4] = value;
+      k = 3;
+    } else {
+      k = 0;
+      while (value >= q[k + 1]) {
+        k++;
+      }
+    }
+
+    for (let i = k + 1; i < 5; i++) {
+      n[i]++;
+    }
+    for (let i = 0; i < 5; i++) {
+      this.desired[i] += this.increments[i];
+    }
+
+    // Move the middle markers towards their desired positions
+    for (let i = 1; i <= 3; i++) {
+      const d = this.desired[i] - n[i];
+      if ((d >= 1 && n[i + 1] - n[i] > 1) || (d <= -1 && n[i - 1] - n[i] < -1)) {
+        const step = Math.sign(d);
+        const parabolic = q[i] + step / (n[i + 1] - n[i - 1]) * (
+          (n[i] - n[i - 1] + step) * (q[i + 1] - q[i]) / (n[i + 1] - n[i]) +
+          (n[i + 1] - n[i] - step) * (q[i] - q[i - 1]) / (n[i] - n[i - 1])
+        );
+        q[i] = q[i - 1] < parabolic && parabolic < q[i + 1]
+          ? parabolic
+          : q[i] + step * (q[i + step] - q[i]) / (n[i + step] - n[i]);
+        n[i] += step;
+      }
+    }
+  }
+
+  value(): number {
+    if (this.count === 0) {
+      return 0;
+    }
+    if (this.count < 5) {
+      // Exact while there are too few observations for the markers
+      const sorted = [...this.heights].sort((a, b) => a - b);
+      return sorted[Math.max(0, Math.ceil(sorted.length * this.p) - 1)];
+    }
+    return this.heights[2];
+  }
+}
+
+interface ScalarSeries {
+  labels: Record<string, string>;
+  value: number;
+}
+
+interface HistogramSeries {
+  labels: Record<string, string>;
+  // Per-bucket (non-cumulative) counts; the last slot is the +Inf overflow
+  bucketCounts: number[];
+  sum: number;
+  count: number;
+  min: number;
+  max: number;
+  quantiles: P2Quantile[];
+}
+
+interface MetricFamily {
+  name: string;
+  type: MetricType;
+  help?: string;
+  buckets: number[];
+  series: Map<string, ScalarSeries | HistogramSeries>;
+  // Distinct values seen per label name
+  labelValues: Map<string, Set<string>>;
+}
+
 export class MetricsCollector {
-  private counters: Map<string, number> = new Map();
-  private gauges: Map<string, number> = new Map();
-  private histograms: Map<string, number[]> = new Map();
-  private timers: Map<string, number> = new Map();
+  private families: Map<string, MetricFamily> = new Map();
+  private definitions: Map<string, MetricDefinition> = new Map();
+  // Metric names already warned about being used as two different types
+  private typeConflicts: Set<string> = new Set();
 
-  // Histogram buckets for response times (in ms)
-  private readonly histogramBuckets = [10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000];
+  /**
+   * @param maxLabelValues Distinct values kept per label of a metric; further
+   * values are recorded as `other` so a bad label cannot grow series forever
+   */
+  constructor(private maxLabelValues: number = 100) {}
+
+  /**
+   * Set help text and (for histograms) buckets for a metric. Bucket changes
+   * only apply to label sets recorded afterwards.
+   */
+  describe(name: string, definition: MetricDefinition): void {
+    if (definition.buckets) {
+      const sorted = [...definition.buckets].sort((a, b) => a - b);
+      if (sorted.length === 0 || sorted.some((le, i) => !Number.isFinite(le) || (i > 0 && le === sorted[i - 1]))) {
+        throw new Error(`Invalid histogram buckets for ${name}`);
+      }
+      definition = { ...definition, buckets: sorted };
+    }
+
+    this.definitions.set(name, definition);
+    const family = this.families.get(name);
+    if (family) {
+      family.help = definition.help;
+      if (family.type === 'histogram' && definition.buckets && family.series.size === 0) {
+        family.buckets = definition.buckets;
+      }
+    }
+  }
 
   /**
    * Increment a counter metric
    */
   incrementCounter(name: string, value: number = 1, labels?: Record<string, string>): void {
-    const key = this.getMetricKey(name, labels);
-    const current = this.counters.get(key) || 0;
-    this.counters.set(key, current + value);
+    const series = this.getScalarSeries(name, 'counter', labels);
+    if (series) {
+      series.value += value;
+    }
   }
 
   /**
    * Set a gauge metric
    */
   setGauge(name: string, value: number, labels?: Record<string, string>): void {
-    const key = this.getMetricKey(name, labels);
-    this.gauges.set(key, value);
+    const series = this.getScalarSeries(name, 'gauge', labels);
+    if (series) {
+      series.value = value;
+    }
   }
 
   /**
    * Record a value in a histogram
    */
   recordHistogram(name: string, value: number, labels?: Record<string, string>): void {
+    const family = this.getFamily(name, 'histogram');
+    if (!family) {
+      return;
+    }
+
+    labels = this.limitLabels(family, labels);
     const key = this.getMetricKey(name, labels);
-    if (!this.histograms.has(key)) {
-      this.histograms.set(key, []);
+    let series = family.series.get(key) as HistogramSeries | undefined;
+    if (!series) {
+      series = {
+        labels,
+        bucketCounts: new Array(family.buckets.length + 1).fill(0),
+        sum: 0,
+        count: 0,
+        min: Infinity,
+        max: -Infinity,
+        quantiles: SUMMARY_QUANTILES.map(p => new P2Quantile(p)),
+      };
+      family.series.set(key, series);
     }
-    this.histograms.get(key)!.push(value);
+
+    const index = family.buckets.findIndex(le => value <= le);
+    series.bucketCounts[index === -1 ? family.buckets.length : index]++;
+    series.sum += value;
+    series.count++;
+    series.min = Math.min(series.min, value);
+    series.max = Math.max(series.max, value);
+    series.quantiles.forEach(quantile => quantile.add(value));
   }
 
   /**
    * Start a timer
    */
   startTimer(name: string, labels?: Record<string, string>): () => void {
-    const key = this.getMetricKey(name, labels);
     const startTime = Date.now();
-    
+
     return () => {
       const duration = Date.now() - startTime;
       this.recordHistogram(name, duration, labels);
@@ -64,39 +247,39 @@ export class MetricsCollector {
   }
 
   /**
-   * Get all metrics in Prometheus format
+   * Get all metrics in Prometheus text exposition format
    */
   getMetricsPrometheus(): string {
     const lines: string[] = [];
 
-    // Counters
-    this.counters.forEach((value, key) => {
-      lines.push(`# TYPE ${this.getMetricName(key)} counter`);
-      lines.push(`${key} ${value}`);
-    });
+    this.families.forEach(family => {
+      if (family.series.size === 0) {
+        return;
+      }
 
-    // Gauges
-    this.gauges.forEach((value, key) => {
-      lines.push(`# TYPE ${this.getMetricName(key)} gauge`);
-      lines.push(`${key} ${value}`);
-    });
+      if (family.help) {
+        lines.push(`# HELP ${family.name} ${this.escapeHelp(family.help)}`);
+      }
+      lines.push(`# TYPE ${family.name} ${family.type}`);
 
-    // Histograms
-    this.histograms.forEach((values, key) => {
-      const metricName = this.getMetricName(key);
-      lines.push(`# TYPE ${metricName} histogram`);
-      
-      const buckets = this.calculateHistogramBuckets(values);
-      buckets.forEach(bucket => {
-        lines.push(`${metricName}_bucket{le="${bucket.le}"} ${bucket.count}`);
+      family.series.forEach(series => {
+        if (family.type !== 'histogram') {
+          lines.push(`${family.name}${this.renderLabels(series.labels)} ${(series as ScalarSeries).value}`);
+          return;
+        }
+
+        const histogram = series as HistogramSeries;
+        this.calculateHistogramBuckets(family, histogram).forEach(bucket => {
+          lines.push(`${family.name}_bucket${this.renderLabels(histogram.labels, { le: String(bucket.le) })} ${bucket.count}`);
+        });
+        lines.push(`${family.name}_bucket${this.renderLabels(histogram.labels, { le: '+Inf' })} ${histogram.count}`);
+        lines.push(`${family.name}_sum${this.renderLabels(histogram.labels)} ${histogram.sum}`);
+        lines.push(`${family.name}_count${this.renderLabels(histogram.labels)} ${histogram.count}`);
       });
-      
-      lines.push(`${metricName}_bucket{le="+Inf"} ${values.length}`);
-      lines.push(`${metricName}_sum ${values.reduce((a, b) => a + b, 0)}`);
-      lines.push(`${metricName}_count ${values.length}`);
     });
 
-    return lines.join('\n');
+    // The exposition format requires a trailing line feed
+    return lines.join('\n') + '\n';
   }
 
   /**
@@ -109,32 +292,25 @@ export class MetricsCollector {
       histograms: {},
     };
 
-    // Convert counters
-    this.counters.forEach((value, key) => {
-      summary.counters[key] = value;
-    });
-
-    // Convert gauges
-    this.gauges.forEach((value, key) => {
-      summary.gauges[key] = value;
-    });
-
-    // Convert histograms to percentiles
-    this.histograms.forEach((values, key) => {
-      if (values.length > 0) {
-        const sorted = values.sort((a, b) => a - b);
-        summary.histograms[key] = {
-          count: values.length,
-          sum: values.reduce((a, b) => a + b, 0),
-          avg: values.reduce((a, b) => a + b, 0) / values.length,
-          min: sorted[0],
-          max: sorted[sorted.length - 1],
-          p50: this.percentile(sorted, 0.5),
-          p90: this.percentile(sorted, 0.9),
-          p95: this.percentile(sorted, 0.95),
-          p99: this.percentile(sorted, 0.99),
-        };
-      }
+    this.families.forEach(family => {
+      family.series.forEach((series, key) => {
+        if (family.type === 'counter') {
+          summary.counters[key] = (series as ScalarSeries).value;
+        } else if (family.type === 'gauge') {
+          summary.gauges[key] = (series as ScalarSeries).value;
+        } else {
+          // Percentiles are streaming estimates
+          const histogram = series as HistogramSeries;
+          summary.histograms[key] = {
+            count: histogram.count,
+            sum: histogram.sum,
+            avg: histogram.sum / histogram.count,
+            min: histogram.min,
+            max: histogram.max,
+            ...Object.fromEntries(SUMMARY_QUANTILES.map((p, i) => [`p${p * 100}`, histogram.quantiles[i].value()])),
+          };
+        }
+      });
     });
 
     return summary;
@@ -144,49 +320,118 @@ export class MetricsCollector {
    * Reset all metrics
    */
   reset(): void {
-    this.counters.clear();
-    this.gauges.clear();
-    this.histograms.clear();
-    this.timers.clear();
+    this.families.clear();
+    this.typeConflicts.clear();
   }
 
-  private getMetricKey(name: string, labels?: Record<string, string>): string {
-    if (!labels || Object.keys(labels).length === 0) {
-      return name;
+  /**
+   * Get or create a metric family. A name keeps the type it was first used
+   * with; using it as another type is ignored (with a warning) because the
+   * exposition format allows only one type per name.
+   */
+  private getFamily(name: string, type: MetricType): MetricFamily | null {
+    let family = this.families.get(name);
+    if (!family) {
+      const definition = this.definitions.get(name);
+      family = {
+        name,
+        type,
+        help: definition?.help,
+        buckets: definition?.buckets ?? DEFAULT_BUCKETS,
+        series: new Map(),
+        labelValues: new Map(),
+      };
+      this.families.set(name, family);
     }
 
-    const labelPairs = Object.entries(labels)
-      .sort(([a], [b]) => a.localeCompare(b))
-      .map(([k, v]) => `${k}="${v}"`)
-      .join(',');
+    if (family.type !== type) {
+      if (!this.typeConflicts.has(name)) {
+        this.typeConflicts.add(name);
+        log.warn('Metric used with a conflicting type, ignoring', { metric: name, type: family.type, usedAs: type });
+      }
+      return null;
+    }
 
-    return `${name}{${labelPairs}}`;
+    return family;
   }
 
-  private getMetricName(key: string): string {
-    const match = key.match(/^([^{]+)/);
-    return match ? match[1] : key;
-  }
+  private getScalarSeries(name: string, type: 'counter' | 'gauge', labels?: Record<string, string>): ScalarSeries | null {
+    const family = this.getFamily(name, type);
+    if (!family) {
+      return null;
+    }
 
-  private calculateHistogramBuckets(values: number[]): HistogramBucket[] {
-    const buckets: HistogramBucket[] = [];
-    
-    for (const bucketLimit of this.histogramBuckets) {
-      const count = values.filter(v => v <= bucketLimit).length;
-      buckets.push({ le: bucketLimit, count });
+    labels = this.limitLabels(family, labels);
+    const key = this.getMetricKey(name, labels);
+    let series = family.series.get(key) as ScalarSeries | undefined;
+    if (!series) {
+      series = { labels, value: 0 };
+      family.series.set(key, series);
     }
+    return series;
+  }
+
+  /**
+   * Replace label values beyond the per-label cap with `other`
+   */
+  private limitLabels(family: MetricFamily, labels?: Record<string, string>): Record<string, string> {
+    const limited: Record<string, string> = {};
+
+    Object.entries(labels ?? {}).forEach(([name, value]) => {
+      let seen = family.labelValues.get(name);
+      if (!seen) {
+        seen = new Set();
+        family.labelValues.set(name, seen);
+      }
+
+      if (seen.has(value) || seen.size < this.maxLabelValues) {
+        seen.add(value);
+        limited[name] = value;
+      } else {
+        limited[name] = OVERFLOW_LABEL_VALUE;
+      }
+    });
+
+    return limited;
+  }
 
-    return buckets;
+  private getMetricKey(name: string, labels?: Record<string, string>): string {
+    return `${name}${this.renderLabels(labels ?? {})}`;
+  }
+
+  /**
+   * Render a label set as `{a="1",b="2"}` (sorted, escaped), with any extra
+   * labels such as `le` appended last
+   */
+  private renderLabels(labels: Record<string, string>, extra?: Record<string, string>): string {
+    const pairs = Object.entries(labels)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .concat(Object.entries(extra ?? {}))
+      .map(([k, v]) => `${k}="${this.escapeLabelValue(String(v))}"`);
+
+    return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+  }
+
+  private escapeLabelValue(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+  }
+
+  private escapeHelp(help: string): string {
+    return help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
   }
 
-  private percentile(sortedValues: number[], p: number): number {
-    const index = Math.ceil(sortedValues.length * p) - 1;
-    return sortedValues[Math.max(0, index)];
+  private calculateHistogramBuckets(family: MetricFamily, series: HistogramSeries): HistogramBucket[] {
+    let cumulative = 0;
+    return family.buckets.map((le, i) => {
+      cumulative += series.bucketCounts[i];
+      return { le, count: cumulative };
+    });
   }
 }
 
 // Global metrics instance
-export const metrics = new MetricsCollector();
+export const metrics = new MetricsCollector(parseInt(process.env.METRICS_MAX_LABEL_VALUES || '100'));
+
 
 // Common metric names
 export const MetricNames = {
@@ -199,24 +444,137 @@ export const MetricNames = {
   CACHE_HIT: 'porteight_proxy_cache_hits_total',
   CACHE_MISS: 'porteight_proxy_cache_misses_total',
   CACHE_ERROR: 'porteight_proxy_cache_errors_total',
+  CACHE_OPERATION_DURATION: 'porteight_proxy_cache_operation_duration_ms',
   
   // Token metrics
   TOKEN_GENERATED: 'porteight_proxy_tokens_generated_total',
   TOKEN_GENERATION_DURATION: 'porteight_proxy_token_generation_duration_ms',
   TOKEN_GENERATION_ERROR: 'porteight_proxy_token_generation_errors_total',
+  TOKEN_REFRESHED: 'porteight_proxy_token_refreshes_total',
+  TOKEN_COALESCED: 'porteight_proxy_token_requests_coalesced_total',
   
   // Database metrics
   DB_QUERY_TOTAL: 'porteight_proxy_db_queries_total',
   DB_QUERY_DURATION: 'porteight_proxy_db_query_duration_ms',
   DB_QUERY_ERROR: 'porteight_proxy_db_query_errors_total',
+  TRUCK_ACCESS_STALE_SERVED: 'porteight_proxy_truck_access_stale_served_total',
+  
+  // Circuit breaker metrics (0 = closed, 1 = half-open, 2 = open)
+  CIRCUIT_BREAKER_STATE: 'porteight_proxy_circuit_breaker_state',
   
   // Connection pool metrics
   POOL_CONNECTIONS_ACTIVE: 'porteight_proxy_pool_connections_active',
   POOL_CONNECTIONS_IDLE: 'porteight_proxy_pool_connections_idle',
   POOL_CONNECTIONS_TOTAL: 'porteight_proxy_pool_connections_total',
+  POOL_WAITING_CLIENTS: 'porteight_proxy_pool_waiting_clients',
+  POOL_ACQUIRE_DURATION: 'porteight_proxy_pool_acquire_duration_ms',
+  POOL_ACQUIRE_TIMEOUT: 'porteight_proxy_pool_acquire_timeouts_total',
+  POOL_QUEUE_REJECTED: 'porteight_proxy_pool_queue_rejections_total',
+  POOL_CONNECTIONS_EVICTED: 'porteight_proxy_pool_connections_evicted_total',
+  
+  // Rate limit metrics
+  RATE_LIMITED: 'porteight_proxy_rate_limited_total',
+  RATE_LIMIT_ERROR: 'porteight_proxy_rate_limit_errors_total',
   
   // Tinybird metrics
   TINYBIRD_REQUEST_TOTAL: 'porteight_proxy_tinybird_requests_total',
   TINYBIRD_REQUEST_DURATION: 'porteight_proxy_tinybird_request_duration_ms',
   TINYBIRD_REQUEST_ERROR: 'porteight_proxy_tinybird_request_errors_total',
-}; 
\ No newline at end of file
+  TINYBIRD_RETRY: 'porteight_proxy_tinybird_retries_total',
+  TINYBIRD_FAILOVER: 'porteight_proxy_tinybird_failovers_total',
+  
+  // Response cache metrics
+  RESPONSE_CACHE_REQUESTS: 'porteight_proxy_response_cache_requests_total',
+  RESPONSE_CACHE_REFRESH_ERROR: 'porteight_proxy_response_cache_refresh_errors_total',
+  
+  // Live location stream metrics
+  LOCATION_STREAM_SUBSCRIBERS: 'porteight_proxy_location_stream_subscribers',
+  LOCATION_STREAM_TRUCK_SETS: 'porteight_proxy_location_stream_truck_sets',
+  LOCATION_STREAM_EVENTS: 'porteight_proxy_location_stream_events_total',
+  LOCATION_STREAM_POLL_ERROR: 'porteight_proxy_location_stream_poll_errors_total',
+  
+  // Geofence metrics
+  GEOFENCE_EVENTS: 'porteight_proxy_geofence_events_total',
+  GEOFENCE_EVALUATION_ERROR: 'porteight_proxy_geofence_evaluation_errors_total',
+  GEOFENCE_WEBHOOK_DELIVERY: 'porteight_proxy_geofence_webhook_deliveries_total',
+  
+  // Audit log metrics
+  AUDIT_RECORDS_WRITTEN: 'porteight_proxy_audit_records_written_total',
+  AUDIT_WRITE_ERROR: 'porteight_proxy_audit_write_errors_total',
+  AUDIT_RECORDS_DROPPED: 'porteight_proxy_audit_records_dropped_total',
+}; 
+// Help text and histogram buckets for each metric
+const metricDefinitions: Record<string, MetricDefinition> = {
+  [MetricNames.REQUEST_TOTAL]: { help: 'Requests handled, by method, route template and status' },
+  [MetricNames.REQUEST_DURATION]: { help: 'Request duration in milliseconds' },
+  [MetricNames.REQUEST_ERROR]: { help: 'Requests that failed with an unhandled error' },
+
+  [MetricNames.CACHE_HIT]: { help: 'Cache hits, by namespace and tier (local or dragonfly)' },
+  [MetricNames.CACHE_MISS]: { help: 'Cache misses, by namespace' },
+  [MetricNames.CACHE_ERROR]: { help: 'DragonflyDB cache operations that failed, by namespace and operation' },
+  [MetricNames.CACHE_OPERATION_DURATION]: {
+    help: 'DragonflyDB cache operation time in milliseconds, by namespace and operation',
+    buckets: [1, 2, 5, 10, 25, 50, 100, 250, 500, 1000],
+  },
+
+  [MetricNames.TOKEN_GENERATED]: { help: 'Tinybird JWTs generated' },
+  [MetricNames.TOKEN_GENERATION_DURATION]: {
+    help: 'Tinybird JWT generation time in milliseconds',
+    buckets: [1, 5, 10, 25, 50, 100, 250, 500, 1000, 2500],
+  },
+  [MetricNames.TOKEN_GENERATION_ERROR]: { help: 'Tinybird JWT generation failures' },
+  [MetricNames.TOKEN_REFRESHED]: { help: 'Tinybird JWTs refreshed ahead of expiry' },
+  [MetricNames.TOKEN_COALESCED]: { help: 'Token requests served by a generation already in flight, by scope' },
+
+  [MetricNames.DB_QUERY_TOTAL]: { help: 'PlanetScale queries executed, by query' },
+  [MetricNames.DB_QUERY_DURATION]: {
+    help: 'PlanetScale query duration in milliseconds, by query',
+    buckets: [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000],
+  },
+  [MetricNames.DB_QUERY_ERROR]: { help: 'PlanetScale queries that failed, by query' },
+  [MetricNames.TRUCK_ACCESS_STALE_SERVED]: { help: 'Truck access lookups served from the last known good copy' },
+
+  [MetricNames.CIRCUIT_BREAKER_STATE]: { help: 'Circuit breaker state (0 = closed, 1 = half-open, 2 = open)' },
+
+  [MetricNames.POOL_CONNECTIONS_ACTIVE]: { help: 'Redis pool connections in use' },
+  [MetricNames.POOL_CONNECTIONS_IDLE]: { help: 'Idle Redis pool connections' },
+  [MetricNames.POOL_CONNECTIONS_TOTAL]: { help: 'Open Redis pool connections' },
+  [MetricNames.POOL_WAITING_CLIENTS]: { help: 'Callers waiting for a Redis pool connection' },
+  [MetricNames.POOL_ACQUIRE_DURATION]: {
+    help: 'Time spent acquiring a Redis pool connection in milliseconds, by pool role',
+    buckets: [1, 2, 5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000],
+  },
+  [MetricNames.POOL_ACQUIRE_TIMEOUT]: { help: 'Redis pool acquires that timed out in the wait queue, by pool role' },
+  [MetricNames.POOL_QUEUE_REJECTED]: { help: 'Redis pool acquires rejected because the wait queue was full, by pool role' },
+  [MetricNames.POOL_CONNECTIONS_EVICTED]: { help: 'Idle Redis pool connections closed, by pool role' },
+
+  [MetricNames.RATE_LIMITED]: { help: 'Requests rejected by rate limits or quotas, by reason and tier' },
+  [MetricNames.RATE_LIMIT_ERROR]: { help: 'Rate limit checks that failed open' },
+
+  [MetricNames.TINYBIRD_REQUEST_TOTAL]: { help: 'Requests forwarded to Tinybird, by pipe, method and status' },
+  [MetricNames.TINYBIRD_REQUEST_DURATION]: {
+    help: 'Tinybird response time in milliseconds, by pipe',
+    buckets: [25, 50, 100, 250, 500, 1000, 2500, 5000, 10000, 30000],
+  },
+  [MetricNames.TINYBIRD_REQUEST_ERROR]: { help: 'Requests to Tinybird that failed, by pipe' },
+  [MetricNames.TINYBIRD_RETRY]: { help: 'Tinybird GET requests retried after a failure, by pipe' },
+  [MetricNames.TINYBIRD_FAILOVER]: { help: 'Tinybird attempts sent to a region other than the first, by region' },
+
+  [MetricNames.RESPONSE_CACHE_REQUESTS]: { help: 'Cacheable pipe requests, by pipe and result (hit, stale, miss, bypass)' },
+  [MetricNames.RESPONSE_CACHE_REFRESH_ERROR]: { help: 'Background refreshes of stale cached responses that failed, by pipe' },
+
+  [MetricNames.LOCATION_STREAM_SUBSCRIBERS]: { help: 'Open live location streams (SSE and WebSocket)' },
+  [MetricNames.LOCATION_STREAM_TRUCK_SETS]: { help: 'Truck sets being polled for live location streams' },
+  [MetricNames.LOCATION_STREAM_EVENTS]: { help: 'Truck position changes published to live location streams' },
+  [MetricNames.LOCATION_STREAM_POLL_ERROR]: { help: 'Live location polls of Tinybird that failed' },
+
+  [MetricNames.GEOFENCE_EVENTS]: { help: 'Geofence events emitted, by type (enter, exit, dwell_exceeded)' },
+  [MetricNames.GEOFENCE_EVALUATION_ERROR]: { help: 'Truck positions that could not be evaluated against a geofence' },
+  [MetricNames.GEOFENCE_WEBHOOK_DELIVERY]: { help: 'Geofence webhook deliveries, by result (success, or failure after all attempts)' },
+
+  [MetricNames.AUDIT_RECORDS_WRITTEN]: { help: 'Audit records written, by sink' },
+  [MetricNames.AUDIT_WRITE_ERROR]: { help: 'Audit batch writes that failed and will be retried, by sink' },
+  [MetricNames.AUDIT_RECORDS_DROPPED]: { help: 'Audit records dropped because a sink\'s buffer was full, by sink' },
+};
+
+Object.entries(metricDefinitions).forEach(([name, definition]) => metrics.describe(name, definition));
@@ -0,0 +1,156 @@
+import { parseTimestamp } from './planetscale.js';
+
+/**
+ * Route declarations that double as the OpenAPI 3.1 document. Each route's
+ * query parameters are validated against the same declaration that is
+ * published, so the document and the server can't drift apart.
+ */
+
+export type JsonSchema = Record<string, unknown>;
+
+export type ParameterSchema =
+  | { type: 'string'; format?: 'date-time'; maxLength?: number; example?: string }
+  | { type: 'integer'; minimum: number; maximum: number; default?: number };
+
+export interface ApiParameter {
+  name: string;
+  in: 'path' | 'query';
+  description: string;
+  // Path parameters are always required
+  required?: boolean;
+  schema: ParameterSchema;
+}
+
+export interface ApiResponse {
+  description: string;
+  // Name of a schema under components.schemas; omitted for empty bodies
+  schema?: string;
+}
+
+/**
+ * One documented route. `path` uses Hono syntax (`/trucks/:registrationNo`).
+ */
+export interface ApiOperation {
+  method: 'get' | 'post' | 'put' | 'delete';
+  path: string;
+  operationId: string;
+  summary: string;
+  description?: string;
+  tags: string[];
+  parameters: ApiParameter[];
+  responses: Record<number, ApiResponse>;
+}
+
+export interface OpenApiInfo {
+  title: string;
+  version: string;
+  description?: string;
+}
+
+export class ApiParameterError extends Error {
+  constructor(message: string, public statusCode: number = 400, public code: string = 'INVALID_PARAMETER') {
+    super(message);
+    this.name = 'ApiParameterError';
+  }
+}
+
+/**
+ * Convert a Hono path to an OpenAPI path template
+ */
+function toOpenApiPath(path: string): string {
+  return path.replace(/:([A-Za-z]+)/g, '{$1}');
+}
+
+/**
+ * Build the OpenAPI document for a set of operations. Every operation
+ * requires the same cookie or bearer JWT as the rest of the proxy.
+ */
+export function buildOpenApiDocument(info: OpenApiInfo, operations: ApiOperation[], schemas: Record<string, JsonSchema>) {
+  const paths: Record<string, Record<string, unknown>> = {};
+
+  operations.forEach(operation => {
+    const responses: Record<string, unknown> = {};
+    Object.entries(operation.responses).forEach(([status, response]) => {
+      responses[status] = {
+        description: response.description,
+        ...(response.schema && {
+          content: { 'application/json': { schema: { $ref: `#/components/schemas/${response.schema}` } } },
+        }),
+      };
+    });
+
+    (paths[toOpenApiPath(operation.path)] ??= {})[operation.method] = {
+      operationId: operation.operationId,
+      summary: operation.summary,
+      ...(operation.description && { description: operation.description }),
+      tags: operation.tags,
+      parameters: operation.parameters.map(parameter => ({
+        name: parameter.name,
+        in: parameter.in,
+        description: parameter.description,
+        required: parameter.in === 'path' || parameter.required === true,
+        schema: parameter.schema,
+      })),
+      responses,
+    };
+  });
+
+  return {
+    openapi: '3.1.0',
+    info,
+    paths,
+    components: {
+      schemas,
+      securitySchemes: {
+        cookieAuth: { type: 'apiKey', in: 'cookie', name: 'auth_token' },
+        bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+      },
+    },
+    security: [{ cookieAuth: [] }, { bearerAuth: [] }],
+  };
+}
+
+/**
+ * Read an operation's query parameters: integers are range-checked and
+ * defaulted, date-times parsed. Undeclared parameters are ignored.
+ * Throws ApiParameterError on the first invalid value
+ */
+export function parseQueryParameters(operation: ApiOperation, searchParams: URLSearchParams): Record<string, string | number | Date | undefined> {
+  const values: Record<string, string | number | Date | undefined> = {};
+
+  operation.parameters.filter(parameter => parameter.in === 'query').forEach(({ name, required, schema }) => {
+    const raw = searchParams.get(name);
+    if (raw === null || raw === '') {
+      if (required) {
+        throw new ApiParameterError(`"${name}" is required`);
+      }
+      values[name] = schema.type === 'integer' ? schema.default : undefined;
+      return;
+    }
+
+    if (schema.type === 'integer') {
+      const value = Number(raw);
+      if (!/^-?\d+$/.test(raw) || value < schema.minimum || value > schema.maximum) {
+        throw new ApiParameterError(`"${name}" must be an integer between ${schema.minimum} and ${schema.maximum}`);
+      }
+      values[name] = value;
+      return;
+    }
+
+    if (schema.format === 'date-time') {
+      const date = parseTimestamp(raw);
+      if (!date) {
+        throw new ApiParameterError(`"${name}" must be an ISO 8601 date-time`);
+      }
+      values[name] = date;
+      return;
+    }
+
+    if (schema.maxLength !== undefined && raw.length > schema.maxLength) {
+      throw new ApiParameterError(`"${name}" must be at most ${schema.maxLength} characters`);
+    }
+    values[name] = raw;
+  });
+
+  return values;
+}
@@ -0,0 +1,254 @@
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+
+/**
+ * Tinybird JWT scope types that can be granted to a pipe
+ */
+export const SCOPE_TYPES = ['PIPES:READ', 'DATASOURCES:READ'] as const;
+
+export type ScopeType = typeof SCOPE_TYPES[number];
+
+/**
+ * A published Tinybird pipe exposed through the proxy
+ */
+export interface PipeDefinition {
+  name: string;
+  scope: ScopeType;
+  // Pipe parameters that receive the user's truck registration numbers
+  rlsParams: string[];
+  formats: string[];
+  methods: string[];
+  // History-type pipes: parameters bounding the queried time range, which
+  // are clamped to each truck's access window
+  timeWindow?: PipeTimeWindow;
+  // Upstream timeout for this pipe; TINYBIRD_TIMEOUT_MS when omitted
+  timeoutMs?: number;
+  // Opt-in response caching for GET requests
+  cache?: PipeCachePolicy;
+}
+
+export interface PipeTimeWindow {
+  startParam: string;
+  endParam: string;
+}
+
+export interface PipeCachePolicy {
+  // How long a cached response is served as fresh
+  ttlSeconds: number;
+  // How long after that it is still served while being refreshed in the background
+  staleWhileRevalidateSeconds: number;
+}
+
+/**
+ * Access levels stored in truck_access.access_level
+ */
+export const ACCESS_LEVELS = ['read', 'write', 'admin'] as const;
+
+export type AccessLevel = typeof ACCESS_LEVELS[number];
+
+export interface PipeRegistry {
+  pipes: PipeDefinition[];
+  // Pipes granted to trucks held at each access level
+  accessLevels: Record<AccessLevel, string[]>;
+}
+
+export class PipeRegistryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PipeRegistryError';
+  }
+}
+
+const DEFAULT_REGISTRY_FILE = 'config/pipes.json';
+
+const IDENTIFIER_PATTERN = /^[A-Za-z0-9_]+$/;
+
+const SUPPORTED_FORMATS = ['json', 'csv', 'ndjson', 'parquet', 'prometheus'];
+
+const SUPPORTED_METHODS = ['GET', 'POST'];
+
+function validateStringList(value: any, field: string, pipeName: string): string[] {
+  if (!Array.isArray(value) || value.length === 0 || value.some(item => typeof item !== 'string')) {
+    throw new PipeRegistryError(`Pipe "${pipeName}" must define "${field}" as a non-empty list of strings`);
+  }
+  return value;
+}
+
+function validateTimeWindow(timeWindow: any, pipeName: string): PipeTimeWindow {
+  const { startParam, endParam } = timeWindow ?? {};
+  if (typeof startParam !== 'string' || !IDENTIFIER_PATTERN.test(startParam) ||
+      typeof endParam !== 'string' || !IDENTIFIER_PATTERN.test(endParam)) {
+    throw new PipeRegistryError(`Pipe "${pipeName}" must define "timeWindow" with valid "startParam" and "endParam" names`);
+  }
+  return { startParam, endParam };
+}
+
+function validateTimeout(timeoutMs: any, pipeName: string): number {
+  if (!Number.isInteger(timeoutMs) || timeoutMs <= 0) {
+    throw new PipeRegistryError(`Pipe "${pipeName}" must define "timeoutMs" as a positive integer`);
+  }
+  return timeoutMs;
+}
+
+function validateCachePolicy(cache: any, pipeName: string): PipeCachePolicy {
+  const { ttlSeconds, staleWhileRevalidateSeconds = 0 } = cache ?? {};
+  if (!Number.isInteger(ttlSeconds) || ttlSeconds <= 0 ||
+      !Number.isInteger(staleWhileRevalidateSeconds) || staleWhileRevalidateSeconds < 0) {
+    throw new PipeRegistryError(`Pipe "${pipeName}" must define "cache" with a positive integer "ttlSeconds" and a non-negative integer "staleWhileRevalidateSeconds"`);
+  }
+  return { ttlSeconds, staleWhileRevalidateSeconds };
+}
+
+/**
+ * Validate a parsed registry, throwing PipeRegistryError on the first problem
+ */
+export function validatePipeRegistry(registry: any): PipeRegistry {
+  if (!registry || !Array.isArray(registry.pipes) || registry.pipes.length === 0) {
+    throw new PipeRegistryError('Pipe registry must define a non-empty "pipes" array');
+  }
+
+  const names = new Set<string>();
+
+  const pipes = registry.pipes.map((entry: any, index: number): PipeDefinition => {
+    if (typeof entry?.name !== 'string' || !IDENTIFIER_PATTERN.test(entry.name)) {
+      throw new PipeRegistryError(`Pipe entry ${index} has an invalid "name"`);
+    }
+    if (names.has(entry.name)) {
+      throw new PipeRegistryError(`Pipe "${entry.name}" is defined more than once`);
+    }
+    names.add(entry.name);
+
+    if (!SCOPE_TYPES.includes(entry.scope)) {
+      throw new PipeRegistryError(`Pipe "${entry.name}" has unsupported scope "${entry.scope}" (expected one of ${SCOPE_TYPES.join(', ')})`);
+    }
+
+    const rlsParams = validateStringList(entry.rlsParams, 'rlsParams', entry.name);
+    const invalidParam = rlsParams.find(param => !IDENTIFIER_PATTERN.test(param));
+    if (invalidParam) {
+      throw new PipeRegistryError(`Pipe "${entry.name}" has an invalid RLS parameter name "${invalidParam}"`);
+    }
+
+    const formats = validateStringList(entry.formats, 'formats', entry.name).map(format => format.toLowerCase());
+    const invalidFormat = formats.find(format => !SUPPORTED_FORMATS.includes(format));
+    if (invalidFormat) {
+      throw new PipeRegistryError(`Pipe "${entry.name}" has unsupported format "${invalidFormat}"`);
+    }
+
+    const methods = validateStringList(entry.methods, 'methods', entry.name).map(method => method.toUpperCase());
+    const invalidMethod = methods.find(method => !SUPPORTED_METHODS.includes(method));
+    if (invalidMethod) {
+      throw new PipeRegistryError(`Pipe "${entry.name}" has unsupported method "${invalidMethod}"`);
+    }
+
+    return {
+      name: entry.name,
+      scope: entry.scope,
+      rlsParams,
+      formats,
+      methods,
+      ...(entry.timeWindow !== undefined && { timeWindow: validateTimeWindow(entry.timeWindow, entry.name) }),
+      ...(entry.timeoutMs !== undefined && { timeoutMs: validateTimeout(entry.timeoutMs, entry.name) }),
+      ...(entry.cache !== undefined && { cache: validateCachePolicy(entry.cache, entry.name) }),
+    };
+  });
+
+  return { pipes, accessLevels: validateAccessLevels(registry.accessLevels, pipes) };
+}
+
+/**
+ * Validate the access level mapping. When omitted, every level is granted
+ * every pipe, matching the behaviour before access levels were introduced.
+ */
+function validateAccessLevels(accessLevels: any, pipes: PipeDefinition[]): Record<AccessLevel, string[]> {
+  const allPipes = pipes.map(pipe => pipe.name);
+
+  if (accessLevels === undefined) {
+    return { read: allPipes, write: allPipes, admin: allPipes };
+  }
+
+  if (!accessLevels || typeof accessLevels !== 'object' || Array.isArray(accessLevels)) {
+    throw new PipeRegistryError('"accessLevels" must be an object mapping access levels to pipe names');
+  }
+
+  const unknownLevel = Object.keys(accessLevels).find(level => !ACCESS_LEVELS.includes(level as AccessLevel));
+  if (unknownLevel) {
+    throw new PipeRegistryError(`Unknown access level "${unknownLevel}" (expected one of ${ACCESS_LEVELS.join(', ')})`);
+  }
+
+  const mapping = {} as Record<AccessLevel, string[]>;
+  ACCESS_LEVELS.forEach(level => {
+    const levelPipes = accessLevels[level] ?? [];
+    if (!Array.isArray(levelPipes) || levelPipes.some(name => typeof name !== 'string')) {
+      throw new PipeRegistryError(`Access level "${level}" must be a list of pipe names`);
+    }
+
+    const unknownPipe = levelPipes.find((name: string) => !allPipes.includes(name));
+    if (unknownPipe) {
+      throw new PipeRegistryError(`Access level "${level}" references unknown pipe "${unknownPipe}"`);
+    }
+
+    mapping[level] = levelPipes;
+  });
+
+  return mapping;
+}
+
+/**
+ * Load and validate the pipe registry from PIPE_REGISTRY_FILE
+ * (defaults to config/pipes.json relative to the working directory)
+ */
+export function loadPipeRegistry(): PipeRegistry {
+  const registryFile = path.resolve(process.env.PIPE_REGISTRY_FILE || DEFAULT_REGISTRY_FILE);
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(readFileSync(registryFile, 'utf8'));
+  } catch (error) {
+    throw new PipeRegistryError(`Failed to read pipe registry ${registryFile}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  return validatePipeRegistry(parsed);
+}
+
+let pipeRegistry: PipeRegistry | null = null;
+
+/**
+ * Get the active pipe registry, loading it on first use
+ */
+export function getPipeRegistry(): PipeRegistry {
+  if (!pipeRegistry) {
+    pipeRegistry = loadPipeRegistry();
+  }
+  return pipeRegistry;
+}
+
+/**
+ * Look up a pipe by name
+ */
+export function getPipe(name: string): PipeDefinition | undefined {
+  return getPipeRegistry().pipes.find(pipe => pipe.name === name);
+}
+
+/**
+ * Group a user's trucks by the pipes their access levels grant.
+ * Trucks held at an unknown access level grant nothing.
+ */
+export function getPipeTrucks(
+  grants: Array<{ truck_registration_no: string; access_level: string }>,
+  registry: PipeRegistry = getPipeRegistry()
+): Map<string, string[]> {
+  const pipeTrucks = new Map<string, string[]>();
+
+  grants.forEach(grant => {
+    const levelPipes = registry.accessLevels[grant.access_level as AccessLevel] ?? [];
+    levelPipes.forEach(pipeName => {
+      const trucks = pipeTrucks.get(pipeName) ?? [];
+      if (!trucks.includes(grant.truck_registration_no)) {
+        trucks.push(grant.truck_registration_no);
+      }
+      pipeTrucks.set(pipeName, trucks);
+    });
+  });
+
+  return pipeTrucks;
+}
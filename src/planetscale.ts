@@ -1,4 +1,13 @@
 import { connect } from '@planetscale/database';
+import { SpanKind } from '@opentelemetry/api';
+import { CircuitBreaker } from './circuitBreaker.js';
+import { metrics, MetricNames } from './metrics.js';
+import { withSpan } from './tracing.js';
+import { canonicalRegistrationNo, compactRegistrationNo } from './registrationNo.js';
+import type { Geofence, GeofenceOwnerType } from './geofence.js';
+import { logger } from './logger.js';
+
+const log = logger.child({ module: 'planetscale' });
 
 export class PlanetScaleError extends Error {
   constructor(message: string) {
@@ -16,17 +25,95 @@ const config = {
 
 const conn = connect(config);
 
+// Fail fast while PlanetScale is down instead of queueing up requests
+export const planetscaleBreaker = new CircuitBreaker('planetscale', {
+  failureThreshold: parseInt(process.env.PLANETSCALE_BREAKER_THRESHOLD || '5'),
+  resetTimeoutMs: parseInt(process.env.PLANETSCALE_BREAKER_RESET_MS || '30000'),
+});
+
+// Rate limit tiers come from an optional table; its failures (e.g. the
+// table is missing) must not open the circuit truck access depends on
+const rateLimitTierBreaker = new CircuitBreaker('planetscale:rate_limit_tier', {
+  failureThreshold: parseInt(process.env.PLANETSCALE_BREAKER_THRESHOLD || '5'),
+  resetTimeoutMs: parseInt(process.env.PLANETSCALE_BREAKER_RESET_MS || '30000'),
+});
+
+/**
+ * Run a query through a PlanetScale circuit breaker (the shared one unless
+ * given) in a span, recording DB_QUERY_* metrics labelled with `name`.
+ * Calls rejected by an open circuit never reach PlanetScale and are not
+ * counted as queries.
+ */
+function execute(name: string, query: string, params: any[], breaker: CircuitBreaker = planetscaleBreaker) {
+  const attributes = { 'db.system.name': 'mysql', 'db.operation.name': name };
+  return withSpan(`planetscale.${name}`, attributes, () => breaker.execute(async () => {
+    const labels = { query: name };
+    const timer = metrics.startTimer(MetricNames.DB_QUERY_DURATION, labels);
+    metrics.incrementCounter(MetricNames.DB_QUERY_TOTAL, 1, labels);
+
+    try {
+      return await conn.execute(query, params);
+    } catch (error) {
+      metrics.incrementCounter(MetricNames.DB_QUERY_ERROR, 1, labels);
+      throw error;
+    } finally {
+      timer();
+    }
+  }), SpanKind.CLIENT);
+}
+
 export interface TruckAccess {
+  // Canonical form, for comparisons
   truck_registration_no: string;
+  // As stored in truck_access, only compacted (no zero-padding), so RLS
+  // values also match Tinybird rows ingested in that form
+  stored_registration_no: string;
   user_id: string;
   access_level: string;
   granted_at: Date;
   expires_at?: Date;
 }
 
+/**
+ * Parse a timestamp column into a Date
+ * PlanetScale returns DATETIME/TIMESTAMP columns as 'YYYY-MM-DD HH:MM:SS' strings in UTC
+ */
+export function parseTimestamp(value: unknown): Date | undefined {
+  if (value === null || value === undefined || value === '') {
+    return undefined;
+  }
+  if (value instanceof Date) {
+    return value;
+  }
+
+  const text = String(value);
+  const isoText = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}(\.\d+)?$/.test(text)
+    ? `${text.replace(' ', 'T')}Z`
+    : text;
+  const date = new Date(isoText);
+
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Normalize a truck_access row (or a cached copy of one) into a TruckAccess,
+ * with the registration number in canonical form
+ */
+export function toTruckAccess(row: any): TruckAccess {
+  return {
+    truck_registration_no: canonicalRegistrationNo(row.truck_registration_no),
+    stored_registration_no: compactRegistrationNo(row.stored_registration_no ?? row.truck_registration_no),
+    user_id: row.user_id,
+    access_level: row.access_level,
+    granted_at: parseTimestamp(row.granted_at) ?? new Date(0),
+    expires_at: parseTimestamp(row.expires_at),
+  };
+}
+
 /**
  * Query truck access for a specific user from PlanetScale
- * This fetches all truck registration numbers that a user has access to
+ * This fetches all truck registration numbers that a user has access to,
+ * in canonical form
  */
 export async function getTruckAccessForUser(userId: string): Promise<string[]> {
   try {
@@ -53,19 +140,19 @@ export async function getTruckAccessForUser(userId: string): Promise<string[]> {
       ORDER BY truck_registration_no
     `;
 
-    const results = await conn.execute(query, [userId]);
+    const results = await execute('truck_registration_nos', query, [userId]);
     
     if (!results.rows || results.rows.length === 0) {
-      console.log(`No truck access found for user ${userId}`);
+      log.debug('No truck access found', { userId });
       return [];
     }
 
-    const registrationNumbers = results.rows.map((row: any) => row.truck_registration_no);
-    console.log(`Found ${registrationNumbers.length} trucks for user ${userId}`);
+    const registrationNumbers = [...new Set(results.rows.map((row: any) => canonicalRegistrationNo(row.truck_registration_no)))];
+    log.debug('Found truck access', { userId, trucks: registrationNumbers.length });
     
     return registrationNumbers;
   } catch (error) {
-    console.error('PlanetScale query error:', error);
+    log.error('PlanetScale query error', { error });
     throw new PlanetScaleError(`Failed to fetch truck access: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
@@ -88,87 +175,212 @@ export async function getTruckAccessDetailsForUser(userId: string): Promise<Truc
       ORDER BY granted_at DESC
     `;
 
-    const results = await conn.execute(query, [userId]);
+    const results = await execute('truck_access_details', query, [userId]);
     
     if (!results.rows || results.rows.length === 0) {
       return [];
     }
 
-    return results.rows as TruckAccess[];
+    return results.rows.map(toTruckAccess);
   } catch (error) {
-    console.error('PlanetScale query error:', error);
+    log.error('PlanetScale query error', { error });
     throw new PlanetScaleError(`Failed to fetch truck access details: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
 /**
  * Check if a user has access to a specific truck
+ * Registration numbers are compared in canonical form, so stored and
+ * requested formatting may differ
  */
 export async function userHasTruckAccess(userId: string, truckRegistrationNo: string): Promise<boolean> {
+  const accessMap = await userHasMultipleTruckAccess(userId, [truckRegistrationNo]);
+  return accessMap.get(truckRegistrationNo) ?? false;
+}
+
+/**
+ * Batch check if a user has access to multiple trucks
+ * More efficient than checking one by one. The map is keyed by the values
+ * passed in; they are compared with the user's trucks in canonical form.
+ */
+export async function userHasMultipleTruckAccess(userId: string, truckRegistrationNos: string[]): Promise<Map<string, boolean>> {
+  if (truckRegistrationNos.length === 0) {
+    return new Map();
+  }
+
+  // Stored values may be formatted differently from the requested ones, so
+  // fetch the user's trucks rather than matching exact strings in SQL
+  const granted = new Set(await getTruckAccessForUser(userId));
+
+  const accessMap = new Map<string, boolean>();
+  truckRegistrationNos.forEach(regNo => {
+    accessMap.set(regNo, granted.has(canonicalRegistrationNo(regNo)));
+  });
+  return accessMap;
+}
+
+/**
+ * Get the rate limit tier assigned to a user
+ * Returns null when the user has no tier assigned
+ */
+export async function getRateLimitTierForUser(userId: string): Promise<string | null> {
   try {
+    // Assumes a table structure like:
+    // CREATE TABLE user_rate_limit_tiers (
+    //   user_id VARCHAR(255) NOT NULL PRIMARY KEY,
+    //   tier VARCHAR(50) NOT NULL
+    // );
     const query = `
-      SELECT COUNT(*) as count
-      FROM truck_access 
-      WHERE user_id = ? 
-        AND truck_registration_no = ?
-        AND (expires_at IS NULL OR expires_at > NOW())
-        AND access_level IN ('read', 'write', 'admin')
+      SELECT tier
+      FROM user_rate_limit_tiers
+      WHERE user_id = ?
+      LIMIT 1
     `;
 
-    const results = await conn.execute(query, [userId, truckRegistrationNo]);
-    
+    const results = await execute('rate_limit_tier', query, [userId], rateLimitTierBreaker);
+
     if (!results.rows || results.rows.length === 0) {
-      return false;
+      return null;
     }
 
-    const count = (results.rows[0] as any).count;
-    return count > 0;
+    return (results.rows[0] as any).tier;
   } catch (error) {
-    console.error('PlanetScale query error:', error);
-    throw new PlanetScaleError(`Failed to check truck access: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    log.error('PlanetScale query error', { error });
+    throw new PlanetScaleError(`Failed to fetch rate limit tier: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
+// Assumes a table structure like:
+// CREATE TABLE geofences (
+//   id VARCHAR(36) PRIMARY KEY,
+//   owner_type ENUM('user', 'org') NOT NULL,
+//   owner_id VARCHAR(255) NOT NULL,
+//   created_by VARCHAR(255) NOT NULL,
+//   name VARCHAR(255) NOT NULL,
+//   geometry JSON NOT NULL,
+//   dwell_seconds INT NULL,
+//   webhook_url VARCHAR(2048) NULL,
+//   webhook_secret VARCHAR(128) NULL,
+//   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+//   updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+//   INDEX idx_owner (owner_type, owner_id)
+// );
+const GEOFENCE_COLUMNS = `
+  id, owner_type, owner_id, created_by, name, geometry, dwell_seconds,
+  webhook_url, webhook_secret, created_at, updated_at
+`;
+
 /**
- * Batch check if a user has access to multiple trucks
- * More efficient than checking one by one
+ * Normalize a geofences row into a Geofence
  */
-export async function userHasMultipleTruckAccess(userId: string, truckRegistrationNos: string[]): Promise<Map<string, boolean>> {
+function toGeofence(row: any): Geofence {
+  return {
+    id: row.id,
+    ownerType: row.owner_type,
+    ownerId: row.owner_id,
+    createdBy: row.created_by,
+    name: row.name,
+    geometry: typeof row.geometry === 'string' ? JSON.parse(row.geometry) : row.geometry,
+    dwellSeconds: row.dwell_seconds === null || row.dwell_seconds === undefined ? null : Number(row.dwell_seconds),
+    webhookUrl: row.webhook_url ?? null,
+    webhookSecret: row.webhook_secret ?? null,
+    createdAt: parseTimestamp(row.created_at) ?? new Date(0),
+    updatedAt: parseTimestamp(row.updated_at) ?? new Date(0),
+  };
+}
+
+/**
+ * Geofences owned by any of the given users or organisations, by name
+ */
+export async function getGeofencesForOwners(owners: Array<{ type: GeofenceOwnerType; id: string }>): Promise<Geofence[]> {
+  if (owners.length === 0) {
+    return [];
+  }
+
   try {
-    if (truckRegistrationNos.length === 0) {
-      return new Map();
-    }
+    const query = `
+      SELECT ${GEOFENCE_COLUMNS}
+      FROM geofences
+      WHERE ${owners.map(() => '(owner_type = ? AND owner_id = ?)').join(' OR ')}
+      ORDER BY name, id
+    `;
+
+    const results = await execute('geofences_for_owners', query, owners.flatMap(owner => [owner.type, owner.id]));
+    return (results.rows ?? []).map(toGeofence);
+  } catch (error) {
+    log.error('PlanetScale query error', { error });
+    throw new PlanetScaleError(`Failed to fetch geofences: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Every geofence, for evaluation
+ */
+export async function getAllGeofences(): Promise<Geofence[]> {
+  try {
+    const results = await execute('all_geofences', `SELECT ${GEOFENCE_COLUMNS} FROM geofences`, []);
+    return (results.rows ?? []).map(toGeofence);
+  } catch (error) {
+    log.error('PlanetScale query error', { error });
+    throw new PlanetScaleError(`Failed to fetch geofences: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
 
-    const placeholders = truckRegistrationNos.map(() => '?').join(',');
+/**
+ * Get a geofence by ID
+ * Returns null when it does not exist
+ */
+export async function getGeofenceById(id: string): Promise<Geofence | null> {
+  try {
+    const results = await execute('geofence_by_id', `SELECT ${GEOFENCE_COLUMNS} FROM geofences WHERE id = ? LIMIT 1`, [id]);
+    return results.rows && results.rows.length > 0 ? toGeofence(results.rows[0]) : null;
+  } catch (error) {
+    log.error('PlanetScale query error', { error });
+    throw new PlanetScaleError(`Failed to fetch geofence: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+export async function insertGeofence(fence: Geofence): Promise<void> {
+  try {
     const query = `
-      SELECT truck_registration_no
-      FROM truck_access 
-      WHERE user_id = ? 
-        AND truck_registration_no IN (${placeholders})
-        AND (expires_at IS NULL OR expires_at > NOW())
-        AND access_level IN ('read', 'write', 'admin')
+      INSERT INTO geofences (id, owner_type, owner_id, created_by, name, geometry, dwell_seconds, webhook_url, webhook_secret)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
     `;
+    await execute('insert_geofence', query, [
+      fence.id, fence.ownerType, fence.ownerId, fence.createdBy, fence.name,
+      JSON.stringify(fence.geometry), fence.dwellSeconds, fence.webhookUrl, fence.webhookSecret,
+    ]);
+  } catch (error) {
+    log.error('PlanetScale query error', { error });
+    throw new PlanetScaleError(`Failed to create geofence: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
 
-    const params = [userId, ...truckRegistrationNos];
-    const results = await conn.execute(query, params);
-    
-    const accessMap = new Map<string, boolean>();
-    
-    // Initialize all as false
-    truckRegistrationNos.forEach(regNo => {
-      accessMap.set(regNo, false);
-    });
-    
-    // Set true for trucks found in results
-    if (results.rows && results.rows.length > 0) {
-      results.rows.forEach((row: any) => {
-        accessMap.set(row.truck_registration_no, true);
-      });
-    }
+/**
+ * Replace a geofence's name, geometry, dwell time and webhook. Owner and
+ * creator never change.
+ */
+export async function updateGeofence(fence: Geofence): Promise<void> {
+  try {
+    const query = `
+      UPDATE geofences
+      SET name = ?, geometry = ?, dwell_seconds = ?, webhook_url = ?, webhook_secret = ?
+      WHERE id = ?
+    `;
+    await execute('update_geofence', query, [
+      fence.name, JSON.stringify(fence.geometry), fence.dwellSeconds, fence.webhookUrl, fence.webhookSecret, fence.id,
+    ]);
+  } catch (error) {
+    log.error('PlanetScale query error', { error });
+    throw new PlanetScaleError(`Failed to update geofence: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
 
-    return accessMap;
+export async function deleteGeofence(id: string): Promise<void> {
+  try {
+    await execute('delete_geofence', 'DELETE FROM geofences WHERE id = ?', [id]);
   } catch (error) {
-    console.error('PlanetScale batch query error:', error);
-    throw new PlanetScaleError(`Failed to batch check truck access: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    log.error('PlanetScale query error', { error });
+    throw new PlanetScaleError(`Failed to delete geofence: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,331 @@
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { Context, Next } from 'hono';
+import { redisPool } from './connectionPool.js';
+import { rateLimitTierCache } from './cache.js';
+import { getRateLimitTierForUser } from './planetscale.js';
+import { metrics, MetricNames } from './metrics.js';
+import { AuthUser } from './auth.js';
+import { RouteMatch } from './routePolicy.js';
+import { logger } from './logger.js';
+
+const log = logger.child({ module: 'rateLimit' });
+
+/**
+ * Token bucket settings: sustained rate and the burst allowed above it
+ */
+export interface BucketLimit {
+  requestsPerSecond: number;
+  burst: number;
+}
+
+export interface RateLimitTier extends BucketLimit {
+  dailyQuota: number;
+  // Tighter per-pipe limits applied on top of the tier-wide bucket
+  routes: Record<string, BucketLimit>;
+}
+
+export interface RateLimitConfig {
+  defaultTier: string;
+  tiers: Record<string, RateLimitTier>;
+}
+
+export class RateLimitConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RateLimitConfigError';
+  }
+}
+
+const DEFAULT_CONFIG_FILE = 'config/rate-limits.json';
+
+// How long the default tier is used after a failed tier lookup
+const TIER_FAILURE_CACHE_SECONDS = 30;
+
+/**
+ * Atomic token buckets: one token is taken from every bucket (KEYS, with
+ * ARGV holding rate and burst pairs) only when each of them has one, so a
+ * request rejected by one bucket doesn't drain the others. Uses the server
+ * clock so every replica agrees.
+ * Returns [had a token, remaining tokens, ms until the next token, ms until
+ * full] for each bucket in turn
+ */
+const TOKEN_BUCKET_SCRIPT = `
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local buckets = {}
+local allowed = 1
+for i, key in ipairs(KEYS) do
+  local rate = tonumber(ARGV[i * 2 - 1])
+  local burst = tonumber(ARGV[i * 2])
+  local data = redis.call('HMGET', key, 'tokens', 'ts')
+  local tokens = tonumber(data[1]) or burst
+  local ts = tonumber(data[2]) or now
+  tokens = math.min(burst, tokens + math.max(0, now - ts) * rate / 1000)
+  if tokens < 1 then
+    allowed = 0
+  end
+  buckets[i] = {rate = rate, burst = burst, tokens = tokens}
+end
+local results = {}
+for i, key in ipairs(KEYS) do
+  local bucket = buckets[i]
+  local hasToken = 0
+  local retryAfter = 0
+  if bucket.tokens >= 1 then
+    hasToken = 1
+    if allowed == 1 then
+      bucket.tokens = bucket.tokens - 1
+    end
+  else
+    retryAfter = math.ceil((1 - bucket.tokens) / bucket.rate * 1000)
+  end
+  redis.call('HSET', key, 'tokens', tostring(bucket.tokens), 'ts', now)
+  redis.call('PEXPIRE', key, math.ceil(bucket.burst / bucket.rate * 1000) + 1000)
+  table.insert(results, hasToken)
+  table.insert(results, math.floor(bucket.tokens))
+  table.insert(results, retryAfter)
+  table.insert(results, math.ceil((bucket.burst - bucket.tokens) / bucket.rate * 1000))
+end
+return results
+`;
+
+/**
+ * Atomic daily quota counter: the expiry (ARGV[1], unix ms) is set together
+ * with the first request of the day
+ */
+const DAILY_QUOTA_SCRIPT = `
+local count = redis.call('INCR', KEYS[1])
+if count == 1 then
+  redis.call('PEXPIREAT', KEYS[1], ARGV[1])
+end
+return count
+`;
+
+interface BucketResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  retryAfterMs: number;
+  resetMs: number;
+}
+
+function validateBucketLimit(value: any, label: string): BucketLimit {
+  if (typeof value?.requestsPerSecond !== 'number' || value.requestsPerSecond <= 0) {
+    throw new RateLimitConfigError(`${label} must define a positive "requestsPerSecond"`);
+  }
+  if (!Number.isInteger(value.burst) || value.burst < 1) {
+    throw new RateLimitConfigError(`${label} must define "burst" as a positive integer`);
+  }
+  return { requestsPerSecond: value.requestsPerSecond, burst: value.burst };
+}
+
+/**
+ * Validate a parsed rate limit config, throwing RateLimitConfigError on the first problem
+ */
+export function validateRateLimitConfig(config: any): RateLimitConfig {
+  if (!config || typeof config.tiers !== 'object' || Object.keys(config.tiers).length === 0) {
+    throw new RateLimitConfigError('Rate limit config must define at least one tier in "tiers"');
+  }
+  if (typeof config.defaultTier !== 'string' || !config.tiers[config.defaultTier]) {
+    throw new RateLimitConfigError('"defaultTier" must name one of the configured tiers');
+  }
+
+  const tiers: Record<string, RateLimitTier> = {};
+  Object.entries(config.tiers).forEach(([name, tier]: [string, any]) => {
+    const bucket = validateBucketLimit(tier, `Tier "${name}"`);
+
+    if (!Number.isInteger(tier.dailyQuota) || tier.dailyQuota < 1) {
+      throw new RateLimitConfigError(`Tier "${name}" must define "dailyQuota" as a positive integer`);
+    }
+
+    const routes: Record<string, BucketLimit> = {};
+    Object.entries(tier.routes ?? {}).forEach(([pipe, limit]) => {
+      routes[pipe] = validateBucketLimit(limit, `Route "${pipe}" of tier "${name}"`);
+    });
+
+    tiers[name] = { ...bucket, dailyQuota: tier.dailyQuota, routes };
+  });
+
+  return { defaultTier: config.defaultTier, tiers };
+}
+
+/**
+ * Load and validate the rate limit config from RATE_LIMIT_CONFIG_FILE
+ * (defaults to config/rate-limits.json relative to the working directory)
+ */
+export function loadRateLimitConfig(): RateLimitConfig {
+  const configFile = path.resolve(process.env.RATE_LIMIT_CONFIG_FILE || DEFAULT_CONFIG_FILE);
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(readFileSync(configFile, 'utf8'));
+  } catch (error) {
+    throw new RateLimitConfigError(`Failed to read rate limit config ${configFile}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  return validateRateLimitConfig(parsed);
+}
+
+let rateLimitConfig: RateLimitConfig | null = null;
+
+/**
+ * Get the active rate limit config, loading it on first use
+ */
+export function getRateLimitConfig(): RateLimitConfig {
+  if (!rateLimitConfig) {
+    rateLimitConfig = loadRateLimitConfig();
+  }
+  return rateLimitConfig;
+}
+
+/**
+ * Resolve the rate limit tier for a user from PlanetScale, with caching.
+ * Unknown or missing tiers fall back to the default tier.
+ */
+export async function getUserRateLimitTier(userId: string): Promise<{ name: string; tier: RateLimitTier }> {
+  const config = getRateLimitConfig();
+  let tierName: string | null = null;
+
+  try {
+    tierName = await rateLimitTierCache.get(userId);
+  } catch (error) {
+    log.warn('Failed to check cache for rate limit tier', { error });
+  }
+
+  if (!tierName) {
+    try {
+      tierName = await getRateLimitTierForUser(userId) ?? config.defaultTier;
+      await rateLimitTierCache.set(userId, tierName).catch(error => {
+        log.warn('Failed to cache rate limit tier', { error });
+      });
+    } catch (error) {
+      log.warn('Failed to fetch rate limit tier, using default tier', { userId, error });
+      tierName = config.defaultTier;
+      // Briefly, so a failing lookup isn't retried on every request
+      await rateLimitTierCache.set(userId, tierName, TIER_FAILURE_CACHE_SECONDS).catch(cacheError => {
+        log.warn('Failed to cache rate limit tier', { error: cacheError });
+      });
+    }
+  }
+
+  if (!config.tiers[tierName]) {
+    log.warn('Unknown rate limit tier, using default tier', { userId, tier: tierName });
+    tierName = config.defaultTier;
+  }
+
+  return { name: tierName, tier: config.tiers[tierName] };
+}
+
+/**
+ * Tinybird JWT `limits.rps` for a tier, kept in sync with the proxy limit
+ */
+export function getTinybirdRps(tier: RateLimitTier): number {
+  return Math.max(1, Math.ceil(tier.requestsPerSecond));
+}
+
+/**
+ * Take a token from each bucket, or from none of them when any is empty.
+ * Only the empty buckets are reported as not allowed.
+ */
+async function consumeBuckets(buckets: Array<{ key: string; limit: BucketLimit }>): Promise<BucketResult[]> {
+  const values = await redisPool.execute(async (redis) => {
+    const args = buckets.flatMap(({ limit }) => [limit.requestsPerSecond, limit.burst]);
+    return await redis.eval(TOKEN_BUCKET_SCRIPT, buckets.length, ...buckets.map(({ key }) => key), ...args) as number[];
+  });
+
+  return buckets.map(({ limit }, i) => {
+    const [allowed, remaining, retryAfterMs, resetMs] = values.slice(i * 4, i * 4 + 4);
+    return {
+      allowed: allowed === 1,
+      limit: limit.burst,
+      remaining,
+      retryAfterMs,
+      resetMs,
+    };
+  });
+}
+
+/**
+ * Count a request against the user's daily quota (UTC day)
+ */
+async function consumeDailyQuota(userId: string, quota: number): Promise<BucketResult> {
+  const now = new Date();
+  const day = now.toISOString().substring(0, 10);
+  const endOfDay = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+  const key = `quota:${userId}:${day}`;
+
+  const used = await redisPool.execute(async (redis) => {
+    return await redis.eval(DAILY_QUOTA_SCRIPT, 1, key, endOfDay + 60000) as number;
+  });
+
+  const resetMs = endOfDay - now.getTime();
+  return {
+    allowed: used <= quota,
+    limit: quota,
+    remaining: Math.max(0, quota - used),
+    retryAfterMs: used <= quota ? 0 : resetMs,
+    resetMs,
+  };
+}
+
+function setRateLimitHeaders(c: Context, result: BucketResult): void {
+  c.header('RateLimit-Limit', String(result.limit));
+  c.header('RateLimit-Remaining', String(result.remaining));
+  c.header('RateLimit-Reset', String(Math.ceil(result.resetMs / 1000)));
+}
+
+/**
+ * Per-user rate limiting backed by Dragonfly. Applies the tier-wide token
+ * bucket and any per-pipe bucket for the matched route together, then the
+ * daily quota.
+ * Fails open when Dragonfly is unavailable.
+ */
+export const rateLimitMiddleware = async (c: Context, next: Next) => {
+  const user = c.get('user') as AuthUser;
+  const route = c.get('route') as RouteMatch | undefined;
+
+  try {
+    const { name: tierName, tier } = await getUserRateLimitTier(user.userId);
+
+    // The user ID is a hash tag so every bucket key lands in one cluster slot,
+    // as the script's keys must
+    const buckets = [{ reason: 'rate', key: `ratelimit:{${user.userId}}`, limit: tier as BucketLimit }];
+    const routeLimit = route && tier.routes[route.pipe];
+    if (routeLimit) {
+      buckets.push({ reason: 'route', key: `ratelimit:{${user.userId}}:${route.pipe}`, limit: routeLimit });
+    }
+
+    const bucketResults = await consumeBuckets(buckets);
+    const results = buckets.map(({ reason }, i) => ({ reason, result: bucketResults[i] }));
+
+    const rejected = results.find(r => !r.result.allowed);
+    if (!rejected) {
+      results.push({ reason: 'quota', result: await consumeDailyQuota(user.userId, tier.dailyQuota) });
+    }
+
+    // Report the most restrictive limit
+    const limiting = results.find(r => !r.result.allowed)
+      ?? results.reduce((a, b) => (b.result.remaining < a.result.remaining ? b : a));
+    setRateLimitHeaders(c, limiting.result);
+
+    if (!limiting.result.allowed) {
+      metrics.incrementCounter(MetricNames.RATE_LIMITED, 1, { reason: limiting.reason, tier: tierName });
+      c.header('Retry-After', String(Math.ceil(limiting.result.retryAfterMs / 1000)));
+
+      const quotaExceeded = limiting.reason === 'quota';
+      return c.json({
+        error: quotaExceeded
+          ? 'Daily request quota exceeded. Please try again tomorrow.'
+          : 'Too many requests. Please slow down.',
+        code: quotaExceeded ? 'QUOTA_EXCEEDED' : 'RATE_LIMITED',
+        timestamp: new Date().toISOString()
+      }, 429 as any);
+    }
+  } catch (error) {
+    metrics.incrementCounter(MetricNames.RATE_LIMIT_ERROR);
+    log.warn('Rate limit check failed, allowing request', { error });
+  }
+
+  await next();
+};
@@ -0,0 +1,157 @@
+import Redis, { Cluster, RedisOptions } from 'ioredis';
+
+export const REDIS_MODES = ['standalone', 'sentinel', 'cluster'] as const;
+export type RedisMode = typeof REDIS_MODES[number];
+
+// A connection to a single server or to a whole cluster
+export type RedisClient = Redis | Cluster;
+
+// Which node a Sentinel-managed connection talks to
+export type RedisRole = 'master' | 'slave';
+
+export interface RedisNode {
+  host: string;
+  port: number;
+}
+
+/**
+ * How to reach DragonflyDB/Redis, read from the environment
+ */
+export interface RedisConnectionConfig {
+  mode: RedisMode;
+  // Standalone connection URL
+  url: string;
+  // Sentinel mode
+  sentinels: RedisNode[];
+  masterName: string;
+  sentinelPassword?: string;
+  // Cluster mode seed nodes
+  clusterNodes: RedisNode[];
+  password?: string;
+  // Serve cache reads from replicas (Sentinel and Cluster only)
+  readFromReplicas: boolean;
+}
+
+export class RedisConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RedisConfigError';
+  }
+}
+
+function parseNodes(value: string | undefined, variable: string): RedisNode[] {
+  return (value ?? '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const [host, port] = entry.split(':');
+      const parsedPort = parseInt(port || '');
+      if (!host || !Number.isInteger(parsedPort)) {
+        throw new RedisConfigError(`${variable} entries must be host:port, got "${entry}"`);
+      }
+      return { host, port: parsedPort };
+    });
+}
+
+/**
+ * Read and validate the Redis connection settings, throwing RedisConfigError
+ * on the first problem
+ */
+export function loadRedisConfig(env: NodeJS.ProcessEnv = process.env): RedisConnectionConfig {
+  const mode = (env.REDIS_MODE || 'standalone') as RedisMode;
+  if (!REDIS_MODES.includes(mode)) {
+    throw new RedisConfigError(`REDIS_MODE must be one of ${REDIS_MODES.join(', ')}, got "${mode}"`);
+  }
+
+  const config: RedisConnectionConfig = {
+    mode,
+    url: env.DRAGONFLY_URL || 'redis://localhost:6379',
+    sentinels: parseNodes(env.REDIS_SENTINELS, 'REDIS_SENTINELS'),
+    masterName: env.REDIS_SENTINEL_MASTER_NAME || 'mymaster',
+    sentinelPassword: env.REDIS_SENTINEL_PASSWORD || undefined,
+    clusterNodes: parseNodes(env.REDIS_CLUSTER_NODES, 'REDIS_CLUSTER_NODES'),
+    password: env.REDIS_PASSWORD || undefined,
+    readFromReplicas: env.REDIS_READ_FROM_REPLICAS === 'true',
+  };
+
+  if (mode === 'sentinel' && config.sentinels.length === 0) {
+    throw new RedisConfigError('REDIS_SENTINELS is required when REDIS_MODE is sentinel');
+  }
+  if (mode === 'cluster' && config.clusterNodes.length === 0) {
+    throw new RedisConfigError('REDIS_CLUSTER_NODES is required when REDIS_MODE is cluster');
+  }
+
+  return config;
+}
+
+let redisConfig: RedisConnectionConfig | null = null;
+
+/**
+ * Get the active Redis connection settings, loading them on first use
+ */
+export function getRedisConfig(): RedisConnectionConfig {
+  if (!redisConfig) {
+    redisConfig = loadRedisConfig();
+  }
+  return redisConfig;
+}
+
+/**
+ * After a failover the old primary comes back as a replica and rejects
+ * writes with READONLY. Reconnecting makes ioredis ask Sentinel (or the
+ * cluster) for the new primary and resend the failed command.
+ */
+function reconnectOnReadOnly(error: Error): boolean | 1 | 2 {
+  return error.message.startsWith('READONLY') ? 2 : false;
+}
+
+/**
+ * Whether connections should ride out reconnects rather than be replaced,
+ * i.e. the server address can change underneath them
+ */
+export function isFailoverAware(config: RedisConnectionConfig): boolean {
+  return config.mode !== 'standalone';
+}
+
+/**
+ * Create a client for the configured mode. `role` selects the Sentinel
+ * primary or a replica; in Cluster mode replica reads are controlled by
+ * `readFromReplicas` instead.
+ */
+export function createRedisClient(
+  config: RedisConnectionConfig,
+  options: RedisOptions,
+  role: RedisRole = 'master'
+): RedisClient {
+  switch (config.mode) {
+    case 'sentinel':
+      return new Redis({
+        ...options,
+        sentinels: config.sentinels,
+        name: config.masterName,
+        role,
+        password: config.password,
+        sentinelPassword: config.sentinelPassword,
+        // Follow +switch-master notifications instead of waiting for an error
+        failoverDetector: true,
+        reconnectOnError: reconnectOnReadOnly,
+      });
+
+    case 'cluster':
+      return new Cluster(config.clusterNodes, {
+        lazyConnect: options.lazyConnect,
+        enableOfflineQueue: options.enableOfflineQueue,
+        enableReadyCheck: options.enableReadyCheck,
+        scaleReads: config.readFromReplicas && role === 'slave' ? 'slave' : 'master',
+        redisOptions: {
+          ...options,
+          password: config.password,
+          reconnectOnError: reconnectOnReadOnly,
+        },
+      });
+
+    default:
+      return new Redis(config.url, options);
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * Indian vehicle registration numbers. Plates arrive as `HR05G5555`,
+ * `HR-05-G-5555`, `hr 05 g 5555` and so on; all of them are compared,
+ * cached and sent to Tinybird in one canonical form: upper case, no
+ * separators, a two-digit RTO code and a four-digit number (`HR05G5555`).
+ */
+
+export type PlateType = 'standard' | 'bh';
+
+/**
+ * A parsed registration number
+ */
+export interface RegistrationNo {
+  canonical: string;
+  type: PlateType;
+  // Standard plates: state or union territory code and RTO district
+  stateCode?: string;
+  rtoCode?: string;
+  // BH-series plates: two-digit year of registration
+  year?: string;
+  series: string;
+  number: string;
+}
+
+export class RegistrationNoError extends Error {
+  constructor(message: string, public invalidValues: string[], public code: string = 'INVALID_REGISTRATION_NO') {
+    super(message);
+    this.name = 'RegistrationNoError';
+  }
+}
+
+/**
+ * State and union territory codes issued by the transport department,
+ * including older codes (OR, UA, DN, DD) still seen on vehicles
+ */
+export const STATE_CODES = new Set([
+  'AN', 'AP', 'AR', 'AS', 'BR', 'CG', 'CH', 'DD', 'DL', 'DN', 'GA', 'GJ',
+  'HP', 'HR', 'JH', 'JK', 'KA', 'KL', 'LA', 'LD', 'MH', 'ML', 'MN', 'MP',
+  'MZ', 'NL', 'OD', 'OR', 'PB', 'PY', 'RJ', 'SK', 'TG', 'TN', 'TR', 'TS',
+  'UA', 'UK', 'UP', 'WB',
+]);
+
+// Standard plates: state code, RTO code, optional series, number
+// (e.g. HR 05 G 5555, DL 3C AB 1234, MH 12 1234)
+const STANDARD_PATTERN = /^([A-Z]{2})(\d{1,2})([A-Z]{0,3})(\d{1,4})$/;
+
+// Bharat series plates: year, BH, number, series (e.g. 22 BH 1234 AA)
+const BH_PATTERN = /^(\d{2})BH(\d{4})([A-Z]{1,2})$/;
+
+/**
+ * Upper-case a plate and drop spaces, hyphens, dots and slashes
+ */
+export function compactRegistrationNo(value: string): string {
+  return value.toUpperCase().replace(/[\s\-./]/g, '');
+}
+
+/**
+ * Parse a registration number in any common formatting.
+ * Throws RegistrationNoError when it is not a valid plate
+ */
+export function parseRegistrationNo(value: string): RegistrationNo {
+  const compact = compactRegistrationNo(value);
+
+  const bh = compact.match(BH_PATTERN);
+  if (bh) {
+    const [, year, number, series] = bh;
+    return { canonical: `${year}BH${number}${series}`, type: 'bh', year, series, number };
+  }
+
+  const standard = compact.match(STANDARD_PATTERN);
+  if (!standard) {
+    throw new RegistrationNoError(`"${value}" is not a valid registration number`, [value]);
+  }
+
+  const [, stateCode, rto, series, digits] = standard;
+  if (!STATE_CODES.has(stateCode)) {
+    throw new RegistrationNoError(`"${value}" has unknown state code ${stateCode}`, [value]);
+  }
+  if (parseInt(rto) === 0 || parseInt(digits) === 0) {
+    throw new RegistrationNoError(`"${value}" is not a valid registration number`, [value]);
+  }
+
+  const rtoCode = rto.padStart(2, '0');
+  const number = digits.padStart(4, '0');
+  return {
+    canonical: `${stateCode}${rtoCode}${series}${number}`,
+    type: 'standard',
+    stateCode,
+    rtoCode,
+    series,
+    number,
+  };
+}
+
+/**
+ * Canonical form of a registration number.
+ * Throws RegistrationNoError when it is not a valid plate
+ */
+export function normalizeRegistrationNo(value: string): string {
+  return parseRegistrationNo(value).canonical;
+}
+
+/**
+ * Canonical forms of client-supplied registration numbers, deduplicated.
+ * Values that are not valid plates are accepted when they match one of the
+ * user's `granted` trucks (stored numbers such as test vehicles are granted
+ * in compacted form).
+ * Throws one RegistrationNoError listing every other invalid value
+ */
+export function normalizeRegistrationNos(values: string[], granted: string[] = []): string[] {
+  const grantedNos = new Set(granted);
+  const canonical = new Set<string>();
+  const invalid: string[] = [];
+
+  values.forEach(value => {
+    try {
+      canonical.add(normalizeRegistrationNo(value));
+    } catch (error) {
+      if (!(error instanceof RegistrationNoError)) {
+        throw error;
+      }
+      const compact = canonicalRegistrationNo(value);
+      if (grantedNos.has(compact)) {
+        canonical.add(compact);
+      } else {
+        invalid.push(value);
+      }
+    }
+  });
+
+  if (invalid.length > 0) {
+    const message = invalid.length === 1
+      ? `"${invalid[0]}" is not a valid registration number`
+      : `Invalid registration numbers: ${invalid.join(', ')}`;
+    throw new RegistrationNoError(message, invalid);
+  }
+  return [...canonical];
+}
+
+/**
+ * Canonical form of a stored registration number. Values that are not
+ * valid plates (test vehicles, trailers with temporary numbers) are only
+ * compacted; normalizeRegistrationNos accepts a client value that compacts
+ * to one of them when it is granted to the user.
+ */
+export function canonicalRegistrationNo(value: string): string {
+  try {
+    return normalizeRegistrationNo(value);
+  } catch {
+    return compactRegistrationNo(value);
+  }
+}
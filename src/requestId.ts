@@ -0,0 +1,27 @@
+import { randomUUID } from 'node:crypto';
+import { Context, Next } from 'hono';
+import { runWithLogContext } from './logger.js';
+
+export const REQUEST_ID_HEADER = 'X-Request-ID';
+
+// Client-supplied IDs are only trusted when short and free of odd characters
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+/**
+ * Use the client's X-Request-ID when it is well formed, otherwise a new UUID
+ */
+export function resolveRequestId(headerValue: string | undefined): string {
+  return headerValue && REQUEST_ID_PATTERN.test(headerValue) ? headerValue : randomUUID();
+}
+
+/**
+ * Assign every request an ID, return it in the X-Request-ID response header
+ * and attach it to every log line written while handling the request
+ */
+export const requestIdMiddleware = async (c: Context, next: Next) => {
+  const requestId = resolveRequestId(c.req.header(REQUEST_ID_HEADER));
+  c.set('requestId', requestId);
+
+  await runWithLogContext({ requestId }, next);
+  c.header(REQUEST_ID_HEADER, requestId);
+};
@@ -0,0 +1,122 @@
+import { Context } from 'hono';
+import { PipeDefinition } from './pipeRegistry.js';
+import { normalizeRegistrationNos } from './registrationNo.js';
+
+export class RequestedTrucksError extends Error {
+  constructor(message: string, public statusCode: number = 400, public code: string = 'INVALID_REQUEST_BODY') {
+    super(message);
+    this.name = 'RequestedTrucksError';
+  }
+}
+
+// Pipe parameters sent as JSON are small; larger bodies are not inspected
+const MAX_INSPECTED_BODY_BYTES = 1024 * 1024;
+
+function addTruckValues(requested: Set<string>, value: string): void {
+  value.split(',').map(v => v.trim()).filter(Boolean).forEach(v => requested.add(v));
+}
+
+/**
+ * Collect the truck registration numbers requested through the pipe's
+ * RLS parameters in the query string. Accepts repeated and comma-separated
+ * values.
+ */
+export function getRequestedTrucks(pipe: PipeDefinition, searchParams: URLSearchParams): string[] {
+  const requested = new Set<string>();
+  pipe.rlsParams.forEach(param => {
+    searchParams.getAll(param).forEach(value => addTruckValues(requested, value));
+  });
+  return [...requested];
+}
+
+/**
+ * Collect registration numbers from the pipe's RLS parameters in a JSON
+ * body. Values may be strings (comma-separated) or arrays of strings.
+ */
+export function getRequestedTrucksFromBody(pipe: PipeDefinition, body: unknown): string[] {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return [];
+  }
+
+  const requested = new Set<string>();
+  pipe.rlsParams.forEach(param => {
+    const value = (body as Record<string, unknown>)[param];
+    const values = Array.isArray(value) ? value : [value];
+    values.forEach(item => {
+      if (typeof item === 'string' || typeof item === 'number') {
+        addTruckValues(requested, String(item));
+      }
+    });
+  });
+  return [...requested];
+}
+
+// Parsed bodies per request, so the route policy and token generation read it once
+const parsedBodies = new WeakMap<Request, Promise<unknown>>();
+
+/**
+ * Parse a JSON request body without consuming it, so it can still be
+ * streamed upstream. Returns null for requests without a JSON body.
+ * Throws RequestedTrucksError when the body is too large or not valid JSON.
+ */
+export function readJsonBody(c: Context): Promise<unknown> {
+  let parsed = parsedBodies.get(c.req.raw);
+  if (!parsed) {
+    parsed = parseJsonBody(c);
+    parsedBodies.set(c.req.raw, parsed);
+  }
+  return parsed;
+}
+
+async function parseJsonBody(c: Context): Promise<unknown> {
+  const contentType = c.req.header('Content-Type') ?? '';
+  if (!c.req.raw.body || !/^application\/([\w.+-]+\+)?json\b/i.test(contentType)) {
+    return null;
+  }
+
+  const contentLength = parseInt(c.req.header('Content-Length') || '0');
+  if (contentLength > MAX_INSPECTED_BODY_BYTES) {
+    throw new RequestedTrucksError('JSON request body is too large', 413, 'REQUEST_BODY_TOO_LARGE');
+  }
+
+  // Read a clone chunk by chunk, so a chunked body without Content-Length
+  // is rejected as soon as it passes the limit rather than buffered whole
+  const reader = c.req.raw.clone().body!.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    size += value.byteLength;
+    if (size > MAX_INSPECTED_BODY_BYTES) {
+      await reader.cancel();
+      throw new RequestedTrucksError('JSON request body is too large', 413, 'REQUEST_BODY_TOO_LARGE');
+    }
+    chunks.push(value);
+  }
+
+  const text = Buffer.concat(chunks).toString('utf8');
+  if (!text.trim()) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new RequestedTrucksError('Request body is not valid JSON');
+  }
+}
+
+/**
+ * All registration numbers a pipe request asks for, from the query string
+ * and a JSON body, in canonical form. `granted` is every truck granted to
+ * the user, so granted numbers that are not valid plates are accepted.
+ * Throws RegistrationNoError listing any other values that are not valid plates
+ */
+export async function resolveRequestedTrucks(c: Context, pipe: PipeDefinition, granted: string[]): Promise<string[]> {
+  const fromQuery = getRequestedTrucks(pipe, new URL(c.req.url).searchParams);
+  const fromBody = getRequestedTrucksFromBody(pipe, await readJsonBody(c));
+  return normalizeRegistrationNos([...fromQuery, ...fromBody], granted);
+}
@@ -0,0 +1,307 @@
+import { createHash } from 'node:crypto';
+import { Context } from 'hono';
+import { cache } from './cache.js';
+import { PipeCachePolicy, PipeDefinition } from './pipeRegistry.js';
+import { getTruckAccessDetails, getTruckSetFingerprint } from './truckFetcher.js';
+import { AuthUser } from './auth.js';
+import { RouteMatch } from './routePolicy.js';
+import { UpstreamResponse } from './upstream.js';
+import { SingleFlight } from './singleFlight.js';
+import { metrics, MetricNames } from './metrics.js';
+import { logger } from './logger.js';
+
+const log = logger.child({ module: 'responseCache' });
+
+/**
+ * How a response was served, reported in `X-Cache` and the audit log.
+ * `bypass` means the client asked for a fresh result with no-cache.
+ */
+export type CacheStatus = 'hit' | 'stale' | 'miss' | 'bypass';
+
+/**
+ * A cached Tinybird response
+ */
+interface CachedResponse {
+  storedAt: number; // Epoch milliseconds
+  status: number;
+  headers: Record<string, string>;
+  etag: string;
+  body: string; // Base64
+}
+
+/**
+ * Fetch the response from Tinybird. Cached requests ask for an
+ * uncompressed body (the proxy compresses on the way out), so one entry
+ * serves every client.
+ */
+export type UpstreamFetcher = (extraHeaders: Record<string, string>) => Promise<UpstreamResponse>;
+
+// Ask Tinybird for an uncompressed body so the cached copy fits every client
+const IDENTITY_ENCODING = { 'accept-encoding': 'identity' };
+
+// Upstream headers that describe one transfer rather than the content
+const UNCACHED_HEADERS = new Set(['age', 'cache-control', 'content-encoding', 'content-length', 'date', 'etag', 'x-request-id']);
+
+// Query parameters left out of the cache key
+const IGNORED_PARAMS = new Set(['token']);
+
+const responseCache = cache.namespace('pipe_response', {
+  ttlSeconds: 60,
+  // Bodies can be large, so the in-process tier is off unless configured
+  localTtlSeconds: parseInt(process.env.RESPONSE_CACHE_LOCAL_TTL || '0'),
+});
+
+// Responses larger than this are passed through without being cached
+const MAX_BODY_BYTES = parseInt(process.env.RESPONSE_CACHE_MAX_BODY_BYTES || '1048576');
+
+// Concurrent misses and background refreshes for the same key share one upstream request
+const fetchFlights = new SingleFlight<CachedResponse | UpstreamResponse>();
+
+/**
+ * Whether a request may be served from or stored in the response cache:
+ * a GET to a pipe with a cache policy, from a client that allows storing
+ */
+export function isCacheable(c: Context, pipe: PipeDefinition): boolean {
+  return c.req.method === 'GET' && pipe.cache !== undefined && !/\bno-store\b/i.test(c.req.header('Cache-Control') ?? '');
+}
+
+/**
+ * Cache key for a request: pipe, format, query parameters in a stable
+ * order (with the requested trucks in canonical form) and the user's
+ * truck-set fingerprint. History pipes clamp results to each user's own
+ * access window, so their entries are also per user.
+ */
+async function getCacheKey(c: Context, pipe: PipeDefinition): Promise<string> {
+  const user = c.get('user') as AuthUser;
+  const route = c.get('route') as RouteMatch;
+  const requestedTrucks = [...(c.get('requestedTrucks') as string[])].sort();
+
+  const params = [...new URL(c.req.url).searchParams.entries()]
+    .filter(([key]) => !pipe.rlsParams.includes(key) && !IGNORED_PARAMS.has(key.toLowerCase()))
+    .sort(([keyA, valueA], [keyB, valueB]) => keyA.localeCompare(keyB) || valueA.localeCompare(valueB));
+
+  const fingerprint = getTruckSetFingerprint(await getTruckAccessDetails(user.userId));
+
+  const keyMaterial = JSON.stringify({
+    format: route.format,
+    params,
+    trucks: requestedTrucks,
+    fingerprint,
+    user: pipe.timeWindow ? user.userId : undefined,
+  });
+  return `${pipe.name}:${createHash('sha256').update(keyMaterial).digest('hex')}`;
+}
+
+/**
+ * Read a body into memory, up to `maxBytes`. When it is larger, the chunks
+ * read so far are returned with a stream that yields the whole body.
+ */
+async function readBody(
+  body: ReadableStream<Uint8Array>,
+  maxBytes: number
+): Promise<{ buffer: Buffer } | { stream: ReadableStream<Uint8Array> }> {
+  const reader = body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return { buffer: Buffer.concat(chunks) };
+    }
+
+    chunks.push(value);
+    size += value.byteLength;
+    if (size > maxBytes) {
+      return {
+        stream: new ReadableStream<Uint8Array>({
+          async pull(controller) {
+            const next = chunks.shift();
+            if (next) {
+              controller.enqueue(next);
+              return;
+            }
+            const { done: finished, value: chunk } = await reader.read();
+            if (finished) {
+              controller.close();
+            } else {
+              controller.enqueue(chunk);
+            }
+          },
+          cancel(reason) {
+            return reader.cancel(reason);
+          },
+        }),
+      };
+    }
+  }
+}
+
+function isCachedResponse(value: CachedResponse | UpstreamResponse): value is CachedResponse {
+  return 'storedAt' in value;
+}
+
+/**
+ * Fetch from Tinybird and store the response when it is a 200 small enough
+ * to cache. Returns the stored entry, or the upstream response (with its
+ * body intact) when it was not cached.
+ */
+async function fetchAndStore(
+  key: string,
+  policy: PipeCachePolicy,
+  fetchUpstream: UpstreamFetcher
+): Promise<CachedResponse | UpstreamResponse> {
+  const upstream = await fetchUpstream(IDENTITY_ENCODING);
+  if (upstream.status !== 200 || !upstream.body) {
+    return upstream;
+  }
+
+  const body = await readBody(upstream.body, MAX_BODY_BYTES);
+  if ('stream' in body) {
+    return { ...upstream, body: body.stream };
+  }
+
+  const headers: Record<string, string> = {};
+  Object.entries(upstream.headers).forEach(([key, value]) => {
+    if (!UNCACHED_HEADERS.has(key)) {
+      headers[key] = value;
+    }
+  });
+
+  const entry: CachedResponse = {
+    storedAt: Date.now(),
+    status: upstream.status,
+    headers,
+    etag: `"${createHash('sha256').update(body.buffer).digest('base64url').substring(0, 27)}"`,
+    body: body.buffer.toString('base64'),
+  };
+
+  try {
+    await responseCache.setJSON(key, entry, policy.ttlSeconds + policy.staleWhileRevalidateSeconds);
+  } catch (error) {
+    log.warn('Failed to store cached response', { key, error });
+  }
+  return entry;
+}
+
+/**
+ * Whether an If-None-Match header matches the entity tag
+ */
+function matchesETag(ifNoneMatch: string | undefined, etag: string): boolean {
+  if (!ifNoneMatch) {
+    return false;
+  }
+  return ifNoneMatch.split(',')
+    .map(tag => tag.trim().replace(/^W\//, ''))
+    .some(tag => tag === '*' || tag === etag);
+}
+
+/**
+ * Build the client response for a cache entry: 304 when the client already
+ * has it, otherwise the stored body, with ETag, Age and Cache-Control
+ */
+function respondFromEntry(c: Context, entry: CachedResponse, policy: PipeCachePolicy, status: CacheStatus): Response {
+  const ageSeconds = Math.max(0, Math.floor((Date.now() - entry.storedAt) / 1000));
+  const headers: Record<string, string> = {
+    'ETag': entry.etag,
+    'Age': String(ageSeconds),
+    'Cache-Control': `private, max-age=${Math.max(0, policy.ttlSeconds - ageSeconds)}, stale-while-revalidate=${policy.staleWhileRevalidateSeconds}`,
+    'X-Cache': status.toUpperCase(),
+  };
+
+  if (matchesETag(c.req.header('If-None-Match'), entry.etag)) {
+    return c.body(null, 304, headers);
+  }
+  return c.body(Buffer.from(entry.body, 'base64'), entry.status as any, { ...entry.headers, ...headers });
+}
+
+/**
+ * Refresh a stale entry after it has been served. Runs at most once at a
+ * time per key on this instance.
+ */
+function refreshInBackground(key: string, pipe: PipeDefinition, fetchUpstream: UpstreamFetcher): void {
+  if (fetchFlights.has(key)) {
+    return;
+  }
+
+  fetchFlights.do(key, () => fetchAndStore(key, pipe.cache!, fetchUpstream))
+    .then(async (result) => {
+      if (!isCachedResponse(result)) {
+        // Not cacheable (error status or too large); the stale entry simply expires
+        await result.body?.cancel();
+      }
+    })
+    .catch(error => {
+      metrics.incrementCounter(MetricNames.RESPONSE_CACHE_REFRESH_ERROR, 1, { pipe: pipe.name });
+      log.warn('Background refresh of cached response failed', { pipe: pipe.name, error });
+    });
+}
+
+/**
+ * Serve a cacheable pipe request from the response cache, falling back to
+ * Tinybird. Fresh entries are served as-is; entries within the pipe's
+ * stale-while-revalidate period are served while a background request
+ * refreshes them. A DragonflyDB failure is treated as a miss.
+ *
+ * Sets `cacheStatus` on the context, and `upstreamStatus` when this
+ * request (rather than a background refresh) reached Tinybird.
+ */
+export async function serveWithCache(c: Context, pipe: PipeDefinition, fetchUpstream: UpstreamFetcher): Promise<Response> {
+  const policy = pipe.cache!;
+  const key = await getCacheKey(c, pipe);
+  const bypass = /\bno-cache\b/i.test(c.req.header('Cache-Control') ?? '');
+
+  if (!bypass) {
+    let entry: CachedResponse | null = null;
+    try {
+      entry = await responseCache.getJSON<CachedResponse>(key);
+    } catch (error) {
+      log.warn('Response cache read failed', { pipe: pipe.name, error });
+    }
+
+    if (entry) {
+      const ageMs = Date.now() - entry.storedAt;
+      if (ageMs < policy.ttlSeconds * 1000) {
+        return serveEntry(c, pipe, entry, 'hit');
+      }
+      if (ageMs < (policy.ttlSeconds + policy.staleWhileRevalidateSeconds) * 1000) {
+        refreshInBackground(key, pipe, fetchUpstream);
+        return serveEntry(c, pipe, entry, 'stale');
+      }
+    }
+  }
+
+  const cacheStatus: CacheStatus = bypass ? 'bypass' : 'miss';
+  metrics.incrementCounter(MetricNames.RESPONSE_CACHE_REQUESTS, 1, { pipe: pipe.name, result: cacheStatus });
+  c.set('cacheStatus', cacheStatus);
+
+  // Join a request for the same key already in flight; its upstream
+  // response can only be shared if it was cached. An uncached body is
+  // streamed to the request that started the flight, so a joined request
+  // falls back to its own upstream request, outside the flight, rather
+  // than joining another flight that may not be cached either.
+  let result: CachedResponse | UpstreamResponse;
+  if (fetchFlights.has(key)) {
+    const shared = await fetchFlights.do(key, () => fetchAndStore(key, policy, fetchUpstream));
+    if (isCachedResponse(shared)) {
+      return respondFromEntry(c, shared, policy, cacheStatus);
+    }
+    result = await fetchAndStore(key, policy, fetchUpstream);
+  } else {
+    result = await fetchFlights.do(key, () => fetchAndStore(key, policy, fetchUpstream));
+  }
+
+  if (isCachedResponse(result)) {
+    c.set('upstreamStatus', result.status);
+    return respondFromEntry(c, result, policy, cacheStatus);
+  }
+
+  c.set('upstreamStatus', result.status);
+  return c.body(result.body as any, result.status as any, { ...result.headers, 'X-Cache': cacheStatus.toUpperCase() });
+}
+
+function serveEntry(c: Context, pipe: PipeDefinition, entry: CachedResponse, status: CacheStatus): Response {
+  metrics.incrementCounter(MetricNames.RESPONSE_CACHE_REQUESTS, 1, { pipe: pipe.name, result: status });
+  c.set('cacheStatus', status);
+  return respondFromEntry(c, entry, pipe.cache!, status);
+}
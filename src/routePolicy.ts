@@ -0,0 +1,139 @@
+import { Context, Next } from 'hono';
+import { getPipe, getPipeRegistry, getPipeTrucks, PipeRegistry } from './pipeRegistry.js';
+import { getTruckAccessDetails, getTruckRegistrationNos } from './truckFetcher.js';
+import { RequestedTrucksError, resolveRequestedTrucks } from './requestedTrucks.js';
+import { RegistrationNoError } from './registrationNo.js';
+import { AuthUser } from './auth.js';
+import { logger } from './logger.js';
+
+const log = logger.child({ module: 'routePolicy' });
+
+/**
+ * Result of matching an incoming request against the route policy
+ */
+export interface RouteMatch {
+  pipe: string;
+  format: string;
+}
+
+export class RoutePolicyError extends Error {
+  constructor(message: string, public statusCode: number = 403, public code: string = 'ROUTE_FORBIDDEN') {
+    super(message);
+    this.name = 'RoutePolicyError';
+  }
+}
+
+export class TruckAccessDeniedError extends RoutePolicyError {
+  constructor(public unauthorizedTrucks: string[], pipe: string) {
+    super(`You do not have access to ${unauthorizedTrucks.join(', ')} through ${pipe}`, 403, 'TRUCK_ACCESS_DENIED');
+    this.name = 'TruckAccessDeniedError';
+  }
+}
+
+// Tinybird pipe endpoints have the shape /v0/pipes/<pipe>.<format>
+const PIPE_PATH_PATTERN = /^\/v0\/pipes\/([A-Za-z0-9_]+)\.([a-z0-9]+)$/;
+
+/**
+ * Match a request against the route policy. Only pipes declared in the
+ * pipe registry, in their declared formats and methods, are allowed.
+ * Throws RoutePolicyError when the route is not allowed
+ */
+export function matchRoute(method: string, path: string, registry: PipeRegistry = getPipeRegistry()): RouteMatch {
+  const match = path.match(PIPE_PATH_PATTERN);
+  if (!match) {
+    throw new RoutePolicyError(`Path ${path} is not an allowed pipe endpoint`);
+  }
+
+  const [, pipe, format] = match;
+  const entry = registry.pipes.find(p => p.name === pipe);
+  if (!entry) {
+    throw new RoutePolicyError(`Pipe ${pipe} is not available through this proxy`);
+  }
+
+  if (!entry.formats.includes(format.toLowerCase())) {
+    throw new RoutePolicyError(`Format .${format} is not allowed for pipe ${pipe}`);
+  }
+
+  if (!entry.methods.includes(method.toUpperCase())) {
+    throw new RoutePolicyError(`Method ${method} is not allowed for pipe ${pipe}`, 405, 'METHOD_NOT_ALLOWED');
+  }
+
+  return { pipe, format: format.toLowerCase() };
+}
+
+/**
+ * Check that the user's access levels grant the pipe
+ * Throws RoutePolicyError when none of the user's trucks grant it
+ */
+export async function assertPipeAccess(userId: string, pipe: string): Promise<void> {
+  const truckAccess = await getTruckAccessDetails(userId);
+  if (truckAccess.length === 0) {
+    throw new RoutePolicyError('No truck access found for your account', 403, 'NO_TRUCK_ACCESS');
+  }
+  if (!getPipeTrucks(truckAccess).has(pipe)) {
+    throw new RoutePolicyError(`Your access level does not grant pipe ${pipe}`, 403, 'PIPE_ACCESS_DENIED');
+  }
+}
+
+/**
+ * Check that every requested truck is granted to the user for the pipe.
+ * Tinybird would silently override them with the token's fixed params;
+ * rejecting here tells the client which trucks it may not query.
+ * Throws TruckAccessDeniedError listing the trucks that are not granted
+ */
+export async function assertTruckAccess(userId: string, pipe: string, trucks: string[]): Promise<void> {
+  if (trucks.length === 0) {
+    return;
+  }
+
+  const pipeTrucks = getPipeTrucks(await getTruckAccessDetails(userId)).get(pipe) ?? [];
+  const unauthorized = trucks.filter(truck => !pipeTrucks.includes(truck));
+  if (unauthorized.length > 0) {
+    throw new TruckAccessDeniedError(unauthorized, pipe);
+  }
+}
+
+/**
+ * Reject requests to upstream routes that are not in the route policy,
+ * to pipes the user's access levels do not grant, or for trucks the user
+ * may not query through the pipe
+ * The matched route is attached to the context as `route`, and the trucks
+ * named in the query string or JSON body as `requestedTrucks`
+ */
+export const routePolicyMiddleware = async (c: Context, next: Next) => {
+  try {
+    const url = new URL(c.req.url);
+    const route = matchRoute(c.req.method, url.pathname);
+    const user = c.get('user') as AuthUser;
+
+    await assertPipeAccess(user.userId, route.pipe);
+
+    const requestedTrucks = await resolveRequestedTrucks(c, getPipe(route.pipe)!, await getTruckRegistrationNos(user.userId));
+    await assertTruckAccess(user.userId, route.pipe, requestedTrucks);
+
+    c.set('route', route);
+    c.set('requestedTrucks', requestedTrucks);
+  } catch (error) {
+    if (error instanceof RoutePolicyError || error instanceof RequestedTrucksError) {
+      return c.json({
+        error: error.message,
+        code: error.code,
+        ...(error instanceof TruckAccessDeniedError && { unauthorizedTrucks: error.unauthorizedTrucks }),
+        timestamp: new Date().toISOString()
+      }, error.statusCode as any);
+    }
+    if (error instanceof RegistrationNoError) {
+      return c.json({
+        error: error.message,
+        code: error.code,
+        invalidRegistrationNos: error.invalidValues,
+        timestamp: new Date().toISOString()
+      }, 400 as any);
+    }
+
+    log.error('Route policy check failed', { error });
+    return c.json({ error: 'Internal server error' }, 500 as any);
+  }
+
+  await next();
+};
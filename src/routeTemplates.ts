@@ -0,0 +1,55 @@
+/**
+ * Route templates used as the `path` label on request metrics. Raw paths
+ * would create a time series per distinct URL (and per scanner probe).
+ */
+
+// Label value for paths and methods that match nothing we serve
+export const OTHER_LABEL = 'other';
+
+const KNOWN_METHODS = ['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'];
+
+interface RouteTemplate {
+  template: string;
+  pattern: RegExp;
+}
+
+/**
+ * Compile a template such as `/v0/pipes/:pipe.:format`. Parameters match a
+ * single path segment up to the next `/` or `.`.
+ */
+function compileTemplate(template: string): RouteTemplate {
+  const source = template
+    .split(/(:[A-Za-z]+)/)
+    .map(part => part.startsWith(':') ? '[^/.]+' : part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('');
+  return { template, pattern: new RegExp(`^${source}$`) };
+}
+
+const routeTemplates: RouteTemplate[] = [
+  '/health',
+  '/metrics',
+  '/v0/pipes/:pipe.:format',
+].map(compileTemplate);
+
+/**
+ * Add a template for a route served outside the pipe proxy
+ */
+export function registerRouteTemplate(template: string): void {
+  if (!routeTemplates.some(route => route.template === template)) {
+    routeTemplates.push(compileTemplate(template));
+  }
+}
+
+/**
+ * Normalize a request path to its route template, or `other`
+ */
+export function getRouteTemplate(path: string): string {
+  return routeTemplates.find(route => route.pattern.test(path))?.template ?? OTHER_LABEL;
+}
+
+/**
+ * Normalize an HTTP method for use as a label, or `other`
+ */
+export function getMethodLabel(method: string): string {
+  return KNOWN_METHODS.includes(method) ? method : OTHER_LABEL;
+}
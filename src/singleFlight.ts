@@ -0,0 +1,34 @@
+/**
+ * Coalesces concurrent calls for the same key into a single execution.
+ * Callers arriving while a call is in flight share its result.
+ */
+export class SingleFlight<T> {
+  private inFlight: Map<string, Promise<T>> = new Map();
+
+  /**
+   * Run `fn` for `key`, or join the call already in flight for it
+   */
+  do(key: string, fn: () => Promise<T>): Promise<T> {
+    const existing = this.inFlight.get(key);
+    if (existing) {
+      return existing;
+    }
+
+    const promise = fn().finally(() => {
+      this.inFlight.delete(key);
+    });
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+
+  /**
+   * Whether a call for `key` is currently in flight
+   */
+  has(key: string): boolean {
+    return this.inFlight.has(key);
+  }
+
+  get size(): number {
+    return this.inFlight.size;
+  }
+}
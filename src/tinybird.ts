@@ -1,6 +1,13 @@
 import axios from 'axios';
 import jwt from 'jsonwebtoken';
-import { getTruckRegistrationNos } from './truckFetcher.js';
+import { capTTLAtExpiry, getTruckAccessDetails, getTruckSetFingerprint } from './truckFetcher.js';
+import { TruckAccess } from './planetscale.js';
+import { AccessWindow, formatTinybirdDateTime } from './accessWindow.js';
+import { getPipeRegistry, getPipeTrucks, PipeDefinition } from './pipeRegistry.js';
+import { canonicalRegistrationNo } from './registrationNo.js';
+import { logger } from './logger.js';
+
+const log = logger.child({ module: 'tinybird' });
 
 export class TinybirdError extends Error {
   constructor(message: string, public statusCode?: number) {
@@ -9,95 +16,205 @@ export class TinybirdError extends Error {
   }
 }
 
+interface TinybirdJWTScope {
+  type: string;
+  resource: string;
+  fixed_params?: Record<string, any>;
+}
+
 interface TinybirdJWTPayload {
   workspace_id: string;
   name: string;
   exp: number;
-  scopes: Array<{
-    type: string;
-    resource: string;
-    fixed_params?: Record<string, any>;
-  }>;
+  scopes: TinybirdJWTScope[];
   limits?: {
     rps?: number;
   };
 }
 
+/**
+ * A signed Tinybird JWT with its expiry and the truck set it was built from
+ */
+export interface TinybirdToken {
+  token: string;
+  expiresAt: number; // Unix timestamp in seconds
+  fingerprint: string;
+}
+
+const TOKEN_TTL_SECONDS = 3600; // 1 hour maximum token lifetime
+
 interface TinybirdTokenResponse {
   token: string;
   expires_at?: string;
 }
 
+/**
+ * Build a JWT scope for a registry pipe, binding every RLS parameter to the
+ * given trucks. Each truck is bound in canonical form and as stored in
+ * truck_access (compacted but not zero-padded), so Tinybird rows in either
+ * form match.
+ */
+function buildPipeScope(pipe: PipeDefinition, truckRegistrationNos: string[], grants: TruckAccess[]): TinybirdJWTScope {
+  const canonicalNos = new Set(truckRegistrationNos.map(canonicalRegistrationNo));
+  const values = new Set(canonicalNos);
+  grants
+    .filter(access => canonicalNos.has(access.truck_registration_no))
+    .forEach(access => values.add(access.stored_registration_no));
+
+  const fixedParams: Record<string, string[]> = {};
+  pipe.rlsParams.forEach(param => {
+    fixedParams[param] = [...values];
+  });
+
+  return {
+    type: pipe.scope,
+    resource: pipe.name,
+    fixed_params: fixedParams,
+  };
+}
+
+/**
+ * Sign a Tinybird JWT for the given scopes. The token never outlives the
+ * earliest expiry among the grants it was built from.
+ */
+function signTinybirdJWT(name: string, scopes: TinybirdJWTScope[], grants: TruckAccess[], rps: number): Omit<TinybirdToken, 'fingerprint'> {
+  const tinybirdWorkspaceId = process.env.TINYBIRD_WORKSPACE_ID;
+  const tinybirdSigningKey = process.env.TINYBIRD_SIGNING_KEY;
+
+  if (!tinybirdWorkspaceId) {
+    throw new TinybirdError('TINYBIRD_WORKSPACE_ID environment variable is not configured', 500);
+  }
+
+  if (!tinybirdSigningKey) {
+    throw new TinybirdError('TINYBIRD_SIGNING_KEY environment variable is not configured', 500);
+  }
+
+  const ttlSeconds = capTTLAtExpiry(TOKEN_TTL_SECONDS, grants);
+  if (ttlSeconds <= 0) {
+    throw new TinybirdError('Truck access has expired', 403);
+  }
+  const expiresAt = Math.floor(Date.now() / 1000) + ttlSeconds;
+
+  // Create JWT payload with row-level security
+  const jwtPayload: TinybirdJWTPayload = {
+    workspace_id: tinybirdWorkspaceId,
+    name,
+    exp: expiresAt, // 1 hour or the earliest truck access expiry, whichever is sooner
+    scopes,
+    limits: {
+      rps // Rate limit per second for this user, in sync with the proxy rate limit tier
+    }
+  };
+
+  // Sign the JWT with Tinybird's signing key
+  const token = jwt.sign(jwtPayload, tinybirdSigningKey, {
+    algorithm: 'HS256'
+  });
+
+  return { token, expiresAt };
+}
+
+function toTinybirdError(error: unknown): TinybirdError {
+  if (error instanceof TinybirdError) {
+    return error;
+  }
+
+  if (error instanceof jwt.JsonWebTokenError) {
+    return new TinybirdError(`JWT generation error: ${error.message}`, 500);
+  }
+
+  return new TinybirdError(`Failed to generate Tinybird token: ${error instanceof Error ? error.message : 'Unknown error'}`, 500);
+}
+
 /**
  * Generate a Tinybird JWT token with row-level security for a specific user
  * Using Tinybird's JWT format for better security and control
+ *
+ * Each pipe scope only carries the trucks whose access level grants that
+ * pipe, so e.g. admin-only pipes are scoped to the user's admin trucks.
+ * The token never outlives the earliest truck access expiry. Pipes with a
+ * time window are left out; they get a per-request token from
+ * generateWindowedTinybirdToken instead.
+ *
+ * Pass `truckAccess` when the caller already holds the user's grants.
  */
-export async function generateTinybirdToken(userId: string): Promise<string> {
+export async function generateTinybirdToken(userId: string, truckAccess?: TruckAccess[], rps: number = 1): Promise<TinybirdToken> {
   try {
-    const tinybirdWorkspaceId = process.env.TINYBIRD_WORKSPACE_ID;
-    const tinybirdSigningKey = process.env.TINYBIRD_SIGNING_KEY;
+    // Fetch truck access grants for this user
+    const grants = truckAccess ?? await getTruckAccessDetails(userId);
     
-    if (!tinybirdWorkspaceId) {
-      throw new TinybirdError('TINYBIRD_WORKSPACE_ID environment variable is not configured', 500);
+    if (grants.length === 0) {
+      throw new TinybirdError(`No truck registration numbers found for user ${userId}`, 404);
     }
 
-    if (!tinybirdSigningKey) {
-      throw new TinybirdError('TINYBIRD_SIGNING_KEY environment variable is not configured', 500);
-    }
+    const pipeTrucks = getPipeTrucks(grants);
+    const scopes = getPipeRegistry().pipes
+      .filter(pipe => !pipe.timeWindow && pipeTrucks.has(pipe.name))
+      .map(pipe => buildPipeScope(pipe, pipeTrucks.get(pipe.name)!, grants));
 
-    // Fetch truck registration numbers for this user
-    const truckRegistrationNos = await getTruckRegistrationNos(userId);
-    
-    if (truckRegistrationNos.length === 0) {
-      throw new TinybirdError(`No truck registration numbers found for user ${userId}`, 404);
+    if (scopes.length === 0) {
+      throw new TinybirdError(`No pipes are granted by the access levels of user ${userId}`, 403);
     }
 
-    // Create JWT payload with row-level security
-    const jwtPayload: TinybirdJWTPayload = {
-      workspace_id: tinybirdWorkspaceId,
-      name: `user_${userId}_jwt`,
-      exp: Math.floor(Date.now() / 1000) + 3600, // 1 hour expiration
-      scopes: [
-        {
-          type: 'PIPES:READ',
-          resource: 'truck_history_endpoint',
-          fixed_params: {
-            registrationNo: truckRegistrationNos
-          }
-        },
-        {
-          type: 'PIPES:READ',
-          resource: 'truck_location_endpoint',
-          fixed_params: {
-            registrationNo: truckRegistrationNos
-          }
-        }
-      ],
-      limits: {
-        rps: 1 // Rate limit per second for this user
-      }
-    };
+    log.debug('Creating Tinybird JWT', { userId, trucks: grants.length, pipes: scopes.length });
 
-    console.log(`Creating Tinybird JWT for user ${userId} with ${truckRegistrationNos.length} trucks`);
+    const signed = signTinybirdJWT(`user_${userId}_jwt`, scopes, grants, rps);
 
-    // Sign the JWT with Tinybird's signing key
-    const token = jwt.sign(jwtPayload, tinybirdSigningKey, {
-      algorithm: 'HS256'
-    });
+    log.info('Created Tinybird JWT', { userId, expiresAt: signed.expiresAt });
+    return {
+      ...signed,
+      fingerprint: getTruckSetFingerprint(grants),
+    };
 
-    console.log(`Successfully created Tinybird JWT for user ${userId}`);
-    return token;
+  } catch (error) {
+    throw toTinybirdError(error);
+  }
+}
 
+/**
+ * Generate a single-pipe Tinybird JWT scoped to the given trucks only, for
+ * queries about specific trucks. Since fixed params override the client's,
+ * RLS params sent with the user's token can't narrow it to one truck.
+ */
+export function generateTruckScopedTinybirdToken(
+  userId: string,
+  pipe: PipeDefinition,
+  truckAccess: TruckAccess[],
+  trucks: string[],
+  rps: number = 1
+): string {
+  try {
+    const grants = truckAccess.filter(access => trucks.includes(access.truck_registration_no));
+    return signTinybirdJWT(`user_${userId}_${pipe.name}_jwt`, [buildPipeScope(pipe, trucks, truckAccess)], grants, rps).token;
   } catch (error) {
-    if (error instanceof TinybirdError) {
-      throw error;
-    }
+    throw toTinybirdError(error);
+  }
+}
 
-    if (error instanceof jwt.JsonWebTokenError) {
-      throw new TinybirdError(`JWT generation error: ${error.message}`, 500);
+/**
+ * Generate a single-pipe Tinybird JWT for a history query, with the queried
+ * trucks and their access window pinned as fixed params. Tinybird applies
+ * fixed params over anything the client sends, so the window holds whether
+ * the time range arrives in the query string or the request body.
+ */
+export function generateWindowedTinybirdToken(
+  userId: string,
+  pipe: PipeDefinition,
+  truckAccess: TruckAccess[],
+  window: AccessWindow,
+  rps: number = 1
+): string {
+  try {
+    const scope = buildPipeScope(pipe, window.trucks, truckAccess);
+    scope.fixed_params![pipe.timeWindow!.startParam] = formatTinybirdDateTime(window.start);
+    if (window.end) {
+      scope.fixed_params![pipe.timeWindow!.endParam] = formatTinybirdDateTime(window.end);
     }
 
-    throw new TinybirdError(`Failed to generate Tinybird token: ${error instanceof Error ? error.message : 'Unknown error'}`, 500);
+    const grants = truckAccess.filter(access => window.trucks.includes(access.truck_registration_no));
+    return signTinybirdJWT(`user_${userId}_${pipe.name}_jwt`, [scope], grants, rps).token;
+  } catch (error) {
+    throw toTinybirdError(error);
   }
 }
 
@@ -118,8 +235,9 @@ export async function generateTinybirdStaticToken(userId: string): Promise<strin
       throw new TinybirdError('TINYBIRD_ADMIN_TOKEN environment variable is not configured', 500);
     }
 
-    // Fetch truck registration numbers for this user
-    const truckRegistrationNos = await getTruckRegistrationNos(userId);
+    // Fetch truck access grants for this user
+    const truckAccess = await getTruckAccessDetails(userId);
+    const truckRegistrationNos = [...new Set(truckAccess.map(access => access.truck_registration_no))];
     
     if (truckRegistrationNos.length === 0) {
       throw new TinybirdError(`No truck registration numbers found for user ${userId}`, 404);
@@ -132,16 +250,27 @@ export async function generateTinybirdStaticToken(userId: string): Promise<strin
     
     const rlsCondition = `registrationNo IN (${registrationNosCondition})`;
 
+    // A static token has a single sql_filter, so only pipes granted for
+    // every one of the user's trucks can be included
+    const pipeTrucks = getPipeTrucks(truckAccess);
+    const pipes = getPipeRegistry().pipes
+      .filter(pipe => pipeTrucks.get(pipe.name)?.length === truckRegistrationNos.length)
+      .map(pipe => pipe.name);
+
+    if (pipes.length === 0) {
+      throw new TinybirdError(`No pipes are granted for all trucks of user ${userId}`, 403);
+    }
+
     // Prepare token creation payload
     const tokenPayload = {
       name: `user_${userId}_token_${Date.now()}`,
       scope: 'PIPES:READ',
-      pipes: ['truck_history_endpoint', 'truck_location_endpoint'],
+      pipes,
       sql_filter: rlsCondition,
-      ttl: 3600 // 1 hour TTL
+      ttl: capTTLAtExpiry(TOKEN_TTL_SECONDS, truckAccess) // 1 hour or the earliest truck access expiry
     };
 
-    console.log(`Creating Tinybird static token for user ${userId} with RLS: ${rlsCondition}`);
+    log.debug('Creating Tinybird static token', { userId, rlsCondition });
 
     // Make API call to create token
     const response = await axios.post<TinybirdTokenResponse>(
@@ -160,7 +289,7 @@ export async function generateTinybirdStaticToken(userId: string): Promise<strin
       throw new TinybirdError('Invalid response from Tinybird API - no token received', 500);
     }
 
-    console.log(`Successfully created Tinybird static token for user ${userId}`);
+    log.info('Created Tinybird static token', { userId });
     return response.data.token;
 
   } catch (error) {
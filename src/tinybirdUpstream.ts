@@ -0,0 +1,252 @@
+import axios from 'axios';
+import { Context } from 'hono';
+import { CircuitBreaker, CircuitOpenError } from './circuitBreaker.js';
+import { buildUpstreamUrl, fetchUpstream, forwardRequest, UpstreamResponse } from './upstream.js';
+import { PipeDefinition } from './pipeRegistry.js';
+import { metrics, MetricNames } from './metrics.js';
+import { logger } from './logger.js';
+
+const log = logger.child({ module: 'tinybirdUpstream' });
+
+/**
+ * How requests are forwarded to Tinybird, read from the environment
+ */
+export interface TinybirdUpstreamConfig {
+  // API base URLs in order of preference, e.g. one per region
+  baseUrls: string[];
+  // Default per-request timeout; pipes may override it with timeoutMs
+  timeoutMs: number;
+  // Extra attempts for GET requests after a failure
+  maxRetries: number;
+  retryBaseDelayMs: number;
+  retryMaxDelayMs: number;
+  // Consecutive failures that open a region's circuit, and how long it stays open
+  breakerThreshold: number;
+  breakerResetMs: number;
+}
+
+export class UpstreamError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 502,
+    public code: string = 'UPSTREAM_ERROR',
+    public retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'UpstreamError';
+  }
+}
+
+/**
+ * A retryable status from Tinybird, thrown inside the circuit breaker so it
+ * counts as a failure. Carries the response in case it is the last attempt.
+ */
+class UpstreamStatusError extends Error {
+  constructor(public response: UpstreamResponse) {
+    super(`Tinybird responded with ${response.status}`);
+    this.name = 'UpstreamStatusError';
+  }
+}
+
+// Statuses Tinybird returns while overloaded or unavailable
+const RETRYABLE_STATUSES = new Set([502, 503, 504]);
+
+// axios error codes for a request that ran out of time
+const TIMEOUT_CODES = new Set(['ECONNABORTED', 'ETIMEDOUT']);
+
+/**
+ * Read and validate the upstream settings, throwing UpstreamError on the
+ * first problem. TINYBIRD_API_URLS (comma-separated, in order of
+ * preference) takes precedence over TINYBIRD_API_URL.
+ */
+export function loadTinybirdUpstreamConfig(env: NodeJS.ProcessEnv = process.env): TinybirdUpstreamConfig {
+  const baseUrls = (env.TINYBIRD_API_URLS || env.TINYBIRD_API_URL || '')
+    .split(',')
+    .map(url => url.trim().replace(/\/+$/, ''))
+    .filter(Boolean);
+
+  if (baseUrls.length === 0) {
+    throw new UpstreamError('TINYBIRD_API_URL or TINYBIRD_API_URLS must be configured', 500, 'UPSTREAM_NOT_CONFIGURED');
+  }
+
+  const invalidUrl = baseUrls.find(url => !/^https?:\/\/[^/]+/.test(url));
+  if (invalidUrl) {
+    throw new UpstreamError(`Invalid Tinybird API URL "${invalidUrl}"`, 500, 'UPSTREAM_NOT_CONFIGURED');
+  }
+
+  return {
+    baseUrls: [...new Set(baseUrls)],
+    timeoutMs: parseInt(env.TINYBIRD_TIMEOUT_MS || '30000'),
+    maxRetries: parseInt(env.TINYBIRD_MAX_RETRIES || '2'),
+    retryBaseDelayMs: parseInt(env.TINYBIRD_RETRY_BASE_DELAY_MS || '100'),
+    retryMaxDelayMs: parseInt(env.TINYBIRD_RETRY_MAX_DELAY_MS || '2000'),
+    breakerThreshold: parseInt(env.TINYBIRD_BREAKER_THRESHOLD || '5'),
+    breakerResetMs: parseInt(env.TINYBIRD_BREAKER_RESET_MS || '30000'),
+  };
+}
+
+interface Region {
+  name: string; // host, used in logs, metrics and /health
+  baseUrl: string;
+  breaker: CircuitBreaker;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Forwards requests to Tinybird with per-pipe timeouts, retries for GETs
+ * and a circuit breaker per API base URL. Each request goes to the first
+ * region whose circuit allows it, so traffic fails over down the list while
+ * a region is failing and returns once its half-open probe succeeds.
+ */
+export class TinybirdUpstream {
+  private regions: Region[];
+
+  constructor(private config: TinybirdUpstreamConfig) {
+    this.regions = config.baseUrls.map(baseUrl => {
+      const name = new URL(baseUrl).host;
+      return {
+        name,
+        baseUrl,
+        breaker: new CircuitBreaker(`tinybird:${name}`, {
+          failureThreshold: config.breakerThreshold,
+          resetTimeoutMs: config.breakerResetMs,
+        }),
+      };
+    });
+  }
+
+  /**
+   * Forward the request, retrying GETs on network errors, timeouts and
+   * 502/503/504 responses. Other methods are sent once, since their body
+   * is streamed and can't be replayed.
+   * Throws UpstreamError when no attempt produced a response
+   */
+  async forward(
+    c: Context,
+    pipe: PipeDefinition,
+    tinybirdToken: string,
+    extraHeaders: Record<string, string> = {}
+  ): Promise<UpstreamResponse> {
+    return this.send(pipe, c.req.method.toUpperCase() === 'GET', (baseUrl, timeoutMs) =>
+      forwardRequest(c, buildUpstreamUrl(baseUrl, c.req.url), tinybirdToken, timeoutMs, extraHeaders)
+    );
+  }
+
+  /**
+   * Query a pipe's JSON endpoint on the proxy's own behalf, with the same
+   * timeouts, retries and failover as forwarded requests.
+   * Throws UpstreamError when no attempt produced a response
+   */
+  async fetchPipe(pipe: PipeDefinition, params: URLSearchParams, tinybirdToken: string): Promise<UpstreamResponse> {
+    const query = params.toString();
+    const path = `/v0/pipes/${encodeURIComponent(pipe.name)}.json${query ? `?${query}` : ''}`;
+    return this.send(pipe, true, (baseUrl, timeoutMs) => fetchUpstream(`${baseUrl}${path}`, tinybirdToken, timeoutMs));
+  }
+
+  private async send(
+    pipe: PipeDefinition,
+    retryable: boolean,
+    request: (baseUrl: string, timeoutMs: number) => Promise<UpstreamResponse>
+  ): Promise<UpstreamResponse> {
+    const maxAttempts = retryable ? this.config.maxRetries + 1 : 1;
+    const timeoutMs = pipe.timeoutMs ?? this.config.timeoutMs;
+    const tried = new Set<Region>();
+    let lastError: unknown;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const region = this.pickRegion(tried);
+      if (!region) {
+        break;
+      }
+
+      if (attempt > 1) {
+        metrics.incrementCounter(MetricNames.TINYBIRD_RETRY, 1, { pipe: pipe.name });
+        await sleep(this.retryDelay(attempt - 1));
+      }
+      if (region !== this.regions[0]) {
+        metrics.incrementCounter(MetricNames.TINYBIRD_FAILOVER, 1, { region: region.name });
+      }
+      tried.add(region);
+
+      try {
+        return await region.breaker.execute(async () => {
+          const response = await request(region.baseUrl, timeoutMs);
+          if (RETRYABLE_STATUSES.has(response.status)) {
+            throw new UpstreamStatusError(response);
+          }
+          return response;
+        });
+      } catch (error) {
+        lastError = error;
+        if (error instanceof UpstreamStatusError) {
+          // Out of attempts: pass Tinybird's own error response through
+          if (attempt === maxAttempts) {
+            return error.response;
+          }
+          await error.response.body?.cancel();
+        }
+        log.warn('Tinybird request failed', { region: region.name, pipe: pipe.name, attempt, maxAttempts, error });
+      }
+    }
+
+    throw this.toUpstreamError(lastError);
+  }
+
+  getHealth() {
+    return {
+      degraded: this.regions.some(region => region.breaker.getState() !== 'closed'),
+      regions: this.regions.map(region => ({
+        region: region.name,
+        url: region.baseUrl,
+        circuit: region.breaker.getStats(),
+      })),
+    };
+  }
+
+  get regionNames(): string[] {
+    return this.regions.map(region => region.name);
+  }
+
+  /**
+   * The first region whose circuit allows a call, preferring ones this
+   * request has not tried yet
+   */
+  private pickRegion(tried: Set<Region>): Region | null {
+    const permitted = this.regions.filter(region => region.breaker.isCallPermitted());
+    return permitted.find(region => !tried.has(region)) ?? permitted[0] ?? null;
+  }
+
+  /**
+   * Exponential backoff with full jitter
+   */
+  private retryDelay(retry: number): number {
+    const ceiling = Math.min(this.config.retryMaxDelayMs, this.config.retryBaseDelayMs * 2 ** (retry - 1));
+    return Math.floor(Math.random() * ceiling);
+  }
+
+  private toUpstreamError(error: unknown): UpstreamError {
+    if (error === undefined || error instanceof CircuitOpenError) {
+      const retryAfterMs = Math.min(...this.regions.map(region => region.breaker.getRetryAfterMs()));
+      return new UpstreamError('Tinybird is temporarily unavailable', 503, 'UPSTREAM_UNAVAILABLE', retryAfterMs);
+    }
+    if (axios.isAxiosError(error) && error.code && TIMEOUT_CODES.has(error.code)) {
+      return new UpstreamError('Tinybird request timed out', 504, 'UPSTREAM_TIMEOUT');
+    }
+    return new UpstreamError(`Tinybird request failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+let tinybirdUpstream: TinybirdUpstream | null = null;
+
+/**
+ * Get the Tinybird forwarder, creating it from the environment on first use
+ */
+export function getTinybirdUpstream(): TinybirdUpstream {
+  if (!tinybirdUpstream) {
+    tinybirdUpstream = new TinybirdUpstream(loadTinybirdUpstreamConfig());
+  }
+  return tinybirdUpstream;
+}
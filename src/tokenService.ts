@@ -0,0 +1,305 @@
+import { randomUUID } from 'node:crypto';
+import { redisPool } from './connectionPool.js';
+import { tokenCache } from './cache.js';
+import { generateTinybirdToken, generateTruckScopedTinybirdToken, generateWindowedTinybirdToken } from './tinybird.js';
+import { resolveAccessWindow } from './accessWindow.js';
+import { PipeDefinition } from './pipeRegistry.js';
+import { getEarliestExpiry, getTruckAccessDetails, getTruckSetFingerprint } from './truckFetcher.js';
+import { TruckAccess } from './planetscale.js';
+import { SingleFlight } from './singleFlight.js';
+import { metrics, MetricNames } from './metrics.js';
+import { getTinybirdRps, getUserRateLimitTier } from './rateLimit.js';
+import { withSpan } from './tracing.js';
+import { logger } from './logger.js';
+
+const log = logger.child({ module: 'tokenService' });
+
+// Stop serving a cached token shortly before it expires so in-flight
+// upstream requests never carry an expired JWT
+const TOKEN_EXPIRY_MARGIN_SECONDS = 30;
+
+// Regenerate in the background once a cached token is this close to expiry
+const TOKEN_REFRESH_AHEAD_SECONDS = parseInt(process.env.TOKEN_REFRESH_AHEAD_SECONDS || '300');
+
+// Cross-replica generation lock, and how long waiters poll for its result
+const TOKEN_LOCK_TTL_MS = 5000;
+const TOKEN_LOCK_WAIT_MS = 2000;
+const TOKEN_LOCK_POLL_MS = 50;
+
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+interface CachedToken {
+  token: string;
+  expiresAt: number; // Unix timestamp in seconds
+}
+
+// One token generation per cache key per process, shared by all waiters
+const tokenFlights = new SingleFlight<CachedToken>();
+
+/**
+ * Cache key for a user's Tinybird token. The truck set fingerprint and rate
+ * limit tier are part of the key so a change in truck access or tier never
+ * serves a stale token.
+ */
+function getTokenCacheKey(userId: string, fingerprint: string, tierName: string): string {
+  return `${userId}:${fingerprint}:${tierName}`;
+}
+
+async function readCachedToken(cacheKey: string): Promise<CachedToken | null> {
+  return tokenCache.getJSON<CachedToken>(cacheKey);
+}
+
+/**
+ * Try to take the cross-replica generation lock for a cache key.
+ * Returns true when the lock is held by this process or Dragonfly is
+ * unavailable (in which case we generate without coordination).
+ */
+async function acquireTokenLock(cacheKey: string, lockValue: string): Promise<boolean> {
+  try {
+    const result = await redisPool.execute(async (redis) => {
+      return await redis.set(`lock:${tokenCache.name}:${cacheKey}`, lockValue, 'PX', TOKEN_LOCK_TTL_MS, 'NX');
+    });
+    return result === 'OK';
+  } catch (error) {
+    log.warn('Failed to acquire token lock, generating without it', { error });
+    return true;
+  }
+}
+
+async function releaseTokenLock(cacheKey: string, lockValue: string): Promise<void> {
+  try {
+    await redisPool.execute(async (redis) => {
+      await redis.eval(RELEASE_LOCK_SCRIPT, 1, `lock:${tokenCache.name}:${cacheKey}`, lockValue);
+    });
+  } catch (error) {
+    log.warn('Failed to release token lock', { error });
+  }
+}
+
+/**
+ * Poll the cache while another replica holds the generation lock
+ */
+async function waitForCachedToken(cacheKey: string): Promise<CachedToken | null> {
+  const deadline = Date.now() + TOKEN_LOCK_WAIT_MS;
+  while (Date.now() < deadline) {
+    await new Promise(resolve => setTimeout(resolve, TOKEN_LOCK_POLL_MS));
+    try {
+      const cached = await readCachedToken(cacheKey);
+      if (cached) {
+        return cached;
+      }
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Generate a token and cache it until shortly before it expires
+ */
+async function generateAndCacheToken(
+  userId: string,
+  cacheKey: string,
+  truckAccess: TruckAccess[],
+  rps: number
+): Promise<CachedToken> {
+  const tokenTimer = metrics.startTimer(MetricNames.TOKEN_GENERATION_DURATION);
+
+  try {
+    log.info('Generating new Tinybird token', { userId });
+    const tinybirdToken = await generateTinybirdToken(userId, truckAccess, rps);
+    metrics.incrementCounter(MetricNames.TOKEN_GENERATED);
+
+    const cached: CachedToken = { token: tinybirdToken.token, expiresAt: tinybirdToken.expiresAt };
+    const cacheTTL = cached.expiresAt - Math.floor(Date.now() / 1000) - TOKEN_EXPIRY_MARGIN_SECONDS;
+    if (cacheTTL > 0) {
+      try {
+        await tokenCache.setJSON(cacheKey, cached, cacheTTL);
+      } catch (error) {
+        log.warn('Failed to cache token, proceeding anyway', { error });
+      }
+    }
+
+    return cached;
+  } catch (error) {
+    metrics.incrementCounter(MetricNames.TOKEN_GENERATION_ERROR);
+    throw error;
+  } finally {
+    tokenTimer();
+  }
+}
+
+/**
+ * Generate a token on a cache miss. Only the replica holding the lock
+ * generates; the others wait for its result to land in the cache.
+ */
+async function generateTokenWithLock(
+  userId: string,
+  cacheKey: string,
+  truckAccess: TruckAccess[],
+  rps: number
+): Promise<CachedToken> {
+  const lockValue = randomUUID();
+
+  if (!await acquireTokenLock(cacheKey, lockValue)) {
+    const cached = await waitForCachedToken(cacheKey);
+    if (cached) {
+      metrics.incrementCounter(MetricNames.TOKEN_COALESCED, 1, { scope: 'cluster' });
+      return cached;
+    }
+    // The lock holder is slow or failed, generate it ourselves
+    return generateAndCacheToken(userId, cacheKey, truckAccess, rps);
+  }
+
+  try {
+    return await generateAndCacheToken(userId, cacheKey, truckAccess, rps);
+  } finally {
+    await releaseTokenLock(cacheKey, lockValue);
+  }
+}
+
+/**
+ * Regenerate a token that is about to expire, without blocking the caller.
+ * Skipped when another replica already holds the lock.
+ */
+function refreshTokenInBackground(
+  userId: string,
+  cacheKey: string,
+  truckAccess: TruckAccess[],
+  rps: number
+): void {
+  if (tokenFlights.has(cacheKey)) {
+    return;
+  }
+
+  tokenFlights.do(cacheKey, async () => {
+    const lockValue = randomUUID();
+    if (!await acquireTokenLock(cacheKey, lockValue)) {
+      // Another replica is refreshing; callers joining this flight get the
+      // current token, or a fresh one if it has since expired
+      return await readCachedToken(cacheKey) ?? generateAndCacheToken(userId, cacheKey, truckAccess, rps);
+    }
+
+    try {
+      const refreshed = await generateAndCacheToken(userId, cacheKey, truckAccess, rps);
+      metrics.incrementCounter(MetricNames.TOKEN_REFRESHED);
+      return refreshed;
+    } finally {
+      await releaseTokenLock(cacheKey, lockValue);
+    }
+  }).catch(error => {
+    log.warn('Background token refresh failed', { userId, error: error instanceof Error ? error.message : error });
+  });
+}
+
+/**
+ * A token is worth refreshing ahead of time only if a new one would live
+ * longer, i.e. its expiry is not already pinned to a truck access expiry
+ */
+function shouldRefresh(cached: CachedToken, truckAccess: TruckAccess[]): boolean {
+  const secondsLeft = cached.expiresAt - Math.floor(Date.now() / 1000);
+  if (secondsLeft > TOKEN_REFRESH_AHEAD_SECONDS) {
+    return false;
+  }
+
+  const earliestExpiry = getEarliestExpiry(truckAccess);
+  return !earliestExpiry || Math.floor(earliestExpiry.getTime() / 1000) > cached.expiresAt;
+}
+
+/**
+ * Get a Tinybird token for a user, from cache when possible. Concurrent
+ * misses for the same user share a single generation, and tokens close to
+ * expiry are refreshed in the background.
+ * Throws TinybirdError when a new token cannot be generated
+ */
+export async function getTinybirdTokenForUser(userId: string): Promise<string> {
+  return withSpan('tinybird.token', { 'token.windowed': false }, async (span) => {
+    const truckAccess = await getTruckAccessDetails(userId);
+    const { name: tierName, tier } = await getUserRateLimitTier(userId);
+    const cacheKey = getTokenCacheKey(userId, getTruckSetFingerprint(truckAccess), tierName);
+    const rps = getTinybirdRps(tier);
+
+    // Check cache for existing token (hits, misses and latency are recorded by the cache)
+    try {
+      const cached = await readCachedToken(cacheKey);
+      if (cached) {
+        span.setAttribute('token.cached', true);
+        if (shouldRefresh(cached, truckAccess)) {
+          refreshTokenInBackground(userId, cacheKey, truckAccess, rps);
+        }
+        return cached.token;
+      }
+    } catch (error) {
+      log.warn('Cache lookup failed, proceeding without cache', { error });
+    }
+
+    // Generate new token if not cached, joining any generation already in flight
+    if (tokenFlights.has(cacheKey)) {
+      metrics.incrementCounter(MetricNames.TOKEN_COALESCED, 1, { scope: 'process' });
+    }
+    span.setAttribute('token.cached', false);
+    const generated = await tokenFlights.do(cacheKey, () => generateTokenWithLock(userId, cacheKey, truckAccess, rps));
+    return generated.token;
+  });
+}
+
+/**
+ * Get a Tinybird token for one pipe, scoped to the given trucks. Signed per
+ * request rather than cached, like windowed tokens.
+ */
+export async function getTruckScopedTinybirdToken(userId: string, pipe: PipeDefinition, trucks: string[]): Promise<string> {
+  return withSpan('tinybird.token', { 'token.scoped': true, 'tinybird.pipe': pipe.name }, async () => {
+    const truckAccess = await getTruckAccessDetails(userId);
+    const { tier } = await getUserRateLimitTier(userId);
+
+    const tokenTimer = metrics.startTimer(MetricNames.TOKEN_GENERATION_DURATION);
+    try {
+      const token = generateTruckScopedTinybirdToken(userId, pipe, truckAccess, trucks, getTinybirdRps(tier));
+      metrics.incrementCounter(MetricNames.TOKEN_GENERATED);
+      return token;
+    } catch (error) {
+      metrics.incrementCounter(MetricNames.TOKEN_GENERATION_ERROR);
+      throw error;
+    } finally {
+      tokenTimer();
+    }
+  });
+}
+
+/**
+ * Get a Tinybird token for a history query on a pipe with a time window.
+ * These tokens are scoped to the query's trucks and access window, so they
+ * are signed per request rather than cached.
+ * Throws AccessWindowError when the query falls outside the user's access
+ */
+export async function getWindowedTinybirdToken(
+  userId: string,
+  pipe: PipeDefinition,
+  requestedTrucks: string[],
+  searchParams: URLSearchParams,
+  body: unknown = null
+): Promise<string> {
+  return withSpan('tinybird.token', { 'token.windowed': true, 'tinybird.pipe': pipe.name }, async () => {
+    const truckAccess = await getTruckAccessDetails(userId);
+    const window = resolveAccessWindow(pipe, truckAccess, requestedTrucks, searchParams, body);
+    const { tier } = await getUserRateLimitTier(userId);
+
+    const tokenTimer = metrics.startTimer(MetricNames.TOKEN_GENERATION_DURATION);
+    try {
+      const token = generateWindowedTinybirdToken(userId, pipe, truckAccess, window, getTinybirdRps(tier));
+      metrics.incrementCounter(MetricNames.TOKEN_GENERATED);
+      return token;
+    } catch (error) {
+      metrics.incrementCounter(MetricNames.TOKEN_GENERATION_ERROR);
+      throw error;
+    } finally {
+      tokenTimer();
+    }
+  });
+}
@@ -0,0 +1,150 @@
+import { Context, Next } from 'hono';
+import {
+  Attributes,
+  context,
+  propagation,
+  ROOT_CONTEXT,
+  Span,
+  SpanKind,
+  SpanStatusCode,
+  trace,
+} from '@opentelemetry/api';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import {
+  BatchSpanProcessor,
+  ConsoleSpanExporter,
+  NodeTracerProvider,
+  SimpleSpanProcessor,
+  SpanProcessor,
+} from '@opentelemetry/sdk-trace-node';
+import {
+  ATTR_HTTP_REQUEST_METHOD,
+  ATTR_HTTP_RESPONSE_STATUS_CODE,
+  ATTR_HTTP_ROUTE,
+  ATTR_SERVICE_NAME,
+} from '@opentelemetry/semantic-conventions';
+import { getRouteTemplate } from './routeTemplates.js';
+import { logger } from './logger.js';
+
+const log = logger.child({ module: 'tracing' });
+
+export const TRACE_EXPORTERS = ['none', 'console', 'otlp'] as const;
+export type TraceExporter = typeof TRACE_EXPORTERS[number];
+
+const DEFAULT_SERVICE_NAME = 'porteight-tracking-auth-service';
+
+// All spans come from this tracer; it is a no-op until initTracing() registers a provider
+const tracer = trace.getTracer('porteight-proxy');
+
+let provider: NodeTracerProvider | null = null;
+
+/**
+ * Register the tracer provider selected by OTEL_TRACES_EXPORTER:
+ * `otlp` (endpoint from the standard OTEL_EXPORTER_OTLP_* variables),
+ * `console`, or `none` (the default) to leave tracing off.
+ * Also installs the W3C trace context propagator used for `traceparent`.
+ */
+export function initTracing(): TraceExporter {
+  const exporter = (process.env.OTEL_TRACES_EXPORTER || 'none') as TraceExporter;
+  if (!TRACE_EXPORTERS.includes(exporter)) {
+    throw new Error(`OTEL_TRACES_EXPORTER must be one of ${TRACE_EXPORTERS.join(', ')}, got "${exporter}"`);
+  }
+  if (exporter === 'none' || provider) {
+    return exporter;
+  }
+
+  const spanProcessor: SpanProcessor = exporter === 'otlp'
+    ? new BatchSpanProcessor(new OTLPTraceExporter())
+    : new SimpleSpanProcessor(new ConsoleSpanExporter());
+
+  provider = new NodeTracerProvider({
+    resource: resourceFromAttributes({
+      [ATTR_SERVICE_NAME]: process.env.OTEL_SERVICE_NAME || DEFAULT_SERVICE_NAME,
+    }),
+    spanProcessors: [spanProcessor],
+  });
+  provider.register();
+
+  return exporter;
+}
+
+/**
+ * Flush pending spans and stop exporting
+ */
+export async function shutdownTracing(): Promise<void> {
+  if (!provider) {
+    return;
+  }
+
+  try {
+    await provider.shutdown();
+  } catch (error) {
+    log.error('Error shutting down tracing', { error });
+  }
+  provider = null;
+}
+
+/**
+ * Run `fn` inside a new span that is a child of the active span. The span
+ * records any thrown error and ends when `fn` settles.
+ */
+export async function withSpan<T>(
+  name: string,
+  attributes: Attributes,
+  fn: (span: Span) => Promise<T>,
+  kind: SpanKind = SpanKind.INTERNAL
+): Promise<T> {
+  return tracer.startActiveSpan(name, { kind, attributes }, async (span) => {
+    try {
+      return await fn(span);
+    } catch (error) {
+      span.recordException(error instanceof Error ? error : String(error));
+      span.setStatus({ code: SpanStatusCode.ERROR, message: error instanceof Error ? error.message : undefined });
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
+
+/**
+ * Write the active trace context into outgoing request headers
+ * (`traceparent`/`tracestate`), replacing any the client sent
+ */
+export function injectTraceHeaders(headers: Record<string, string>): void {
+  propagation.inject(context.active(), headers);
+}
+
+/**
+ * Start a server span for each request, continuing the client's trace when
+ * it sent a `traceparent` header. Downstream spans (auth, cache, PlanetScale,
+ * Tinybird) become its children.
+ */
+export const tracingMiddleware = async (c: Context, next: Next) => {
+  const parentContext = propagation.extract(ROOT_CONTEXT, c.req.header());
+  const route = getRouteTemplate(c.req.path);
+
+  const span = tracer.startSpan(`${c.req.method} ${route}`, {
+    kind: SpanKind.SERVER,
+    attributes: {
+      [ATTR_HTTP_REQUEST_METHOD]: c.req.method,
+      [ATTR_HTTP_ROUTE]: route,
+    },
+  }, parentContext);
+
+  try {
+    await context.with(trace.setSpan(parentContext, span), next);
+
+    span.setAttribute(ATTR_HTTP_RESPONSE_STATUS_CODE, c.res.status);
+    if (c.res.status >= 500) {
+      span.setStatus({ code: SpanStatusCode.ERROR });
+    }
+  } catch (error) {
+    span.recordException(error instanceof Error ? error : String(error));
+    span.setStatus({ code: SpanStatusCode.ERROR });
+    throw error;
+  } finally {
+    span.end();
+  }
+};
@@ -1,64 +1,169 @@
-import { getTruckAccessForUser } from './planetscale.js';
-import { dragonflyClient } from './dragonfly.js';
+import { createHash } from 'node:crypto';
+import { getTruckAccessDetailsForUser, planetscaleBreaker, toTruckAccess, TruckAccess } from './planetscale.js';
+import { truckAccessCache, truckAccessStaleCache } from './cache.js';
+import { metrics, MetricNames } from './metrics.js';
+import { SingleFlight } from './singleFlight.js';
+import { withSpan } from './tracing.js';
+import { logger } from './logger.js';
+
+const log = logger.child({ module: 'truckFetcher' });
+
+// Concurrent cache misses for the same user share one PlanetScale query
+const truckAccessFlights = new SingleFlight<TruckAccess[]>();
 
 /**
- * Fetch truck registration numbers for a user from PlanetScale
- * with caching for improved performance
+ * Earliest expires_at among a user's grants, or undefined when none expire
  */
-export async function getTruckRegistrationNos(userId: string): Promise<string[]> {
-  const cacheKey = `truck_access:${userId}`;
-  const cacheTTL = 300; // 5 minutes cache for truck access
-  
-  try {
-    // Try to get from cache first
-    const cachedData = await dragonflyClient.getToken(cacheKey);
-    if (cachedData) {
-      console.log(`Cache hit for truck access of user ${userId}`);
-      return JSON.parse(cachedData);
+export function getEarliestExpiry(truckAccess: TruckAccess[]): Date | undefined {
+  return truckAccess.reduce<Date | undefined>((earliest, access) => {
+    if (!access.expires_at) {
+      return earliest;
     }
-  } catch (error) {
-    console.warn('Failed to check cache for truck access:', error);
+    return !earliest || access.expires_at < earliest ? access.expires_at : earliest;
+  }, undefined);
+}
+
+/**
+ * Cap a TTL (in seconds) so it never outlives the earliest grant expiry
+ */
+export function capTTLAtExpiry(ttlSeconds: number, truckAccess: TruckAccess[]): number {
+  const earliestExpiry = getEarliestExpiry(truckAccess);
+  if (!earliestExpiry) {
+    return ttlSeconds;
   }
 
+  const secondsUntilExpiry = Math.floor((earliestExpiry.getTime() - Date.now()) / 1000);
+  return Math.max(0, Math.min(ttlSeconds, secondsUntilExpiry));
+}
+
+/**
+ * Stable fingerprint of a user's truck set. Any change to the trucks (or
+ * how they are stored), their access levels, grant times or expiry yields a
+ * different fingerprint.
+ */
+export function getTruckSetFingerprint(truckAccess: TruckAccess[]): string {
+  const entries = truckAccess
+    .map(access => `${access.truck_registration_no}|${access.stored_registration_no}|${access.access_level}|${access.granted_at.toISOString()}|${access.expires_at?.toISOString() ?? ''}`)
+    .sort();
+
+  return createHash('sha256').update(entries.join('\n')).digest('hex').substring(0, 16);
+}
+
+// When truck access was last served from the stale copy
+let lastStaleServedAt: number | null = null;
+
+// How long after the last stale serve truck access is reported as degraded
+const DEGRADED_WINDOW_MS = 60000;
+
+function withoutExpiredGrants(rows: any[]): TruckAccess[] {
+  const now = new Date();
+  return rows
+    .map(toTruckAccess)
+    .filter(access => !access.expires_at || access.expires_at > now);
+}
+
+/**
+ * Fetch truck access from PlanetScale and cache it. Alongside the short-lived
+ * entry, a long-lived last known good copy is kept and served if PlanetScale
+ * fails later (stale-if-error). Expired grants are never served from it.
+ */
+async function fetchTruckAccessDetails(userId: string): Promise<TruckAccess[]> {
   try {
     // Fetch from PlanetScale
-    console.log(`Fetching truck registration numbers from PlanetScale for user: ${userId}`);
-    const truckRegistrationNos = await getTruckAccessForUser(userId);
-    
-    // Cache the result
-    if (truckRegistrationNos.length > 0) {
+    log.debug('Fetching truck access from PlanetScale', { userId });
+    const truckAccess = await getTruckAccessDetailsForUser(userId);
+
+    // Cache the result, never past the earliest grant expiry
+    const cacheTTL = capTTLAtExpiry(truckAccessCache.config.ttlSeconds, truckAccess);
+    if (truckAccess.length > 0 && cacheTTL > 0) {
       try {
-        await dragonflyClient.setToken(cacheKey, JSON.stringify(truckRegistrationNos), cacheTTL);
-        console.log(`Cached truck access for user ${userId} with ${truckRegistrationNos.length} trucks`);
+        await truckAccessCache.setJSON(userId, truckAccess, cacheTTL);
+        await truckAccessStaleCache.setJSON(userId, truckAccess);
+        log.debug('Cached truck access', { userId, trucks: truckAccess.length });
       } catch (error) {
-        console.warn('Failed to cache truck access:', error);
+        log.warn('Failed to cache truck access', { error });
       }
     }
-    
-    return truckRegistrationNos;
+
+    return truckAccess;
   } catch (error) {
-    console.error('Failed to fetch truck access from PlanetScale:', error);
-    
-    // Fallback to hardcoded values in development/testing
-    if (process.env.NODE_ENV === 'development') {
-      console.warn('Using fallback truck registration numbers for development');
-      return ['HT56E4521', 'HR05G5555'];
+    log.error('Failed to fetch truck access from PlanetScale', { userId, error });
+
+    let staleData: any[] | null = null;
+    try {
+      staleData = await truckAccessStaleCache.getJSON<any[]>(userId);
+    } catch (cacheError) {
+      log.warn('Failed to read last known good truck access', { error: cacheError });
+    }
+
+    if (staleData) {
+      log.warn('Serving last known good truck access', { userId });
+      metrics.incrementCounter(MetricNames.TRUCK_ACCESS_STALE_SERVED);
+      lastStaleServedAt = Date.now();
+      return withoutExpiredGrants(staleData);
     }
-    
+
     throw error;
   }
 }
 
 /**
- * Invalidate cached truck access for a user
+ * Truck access health for /health: degraded while the PlanetScale circuit
+ * is not closed or stale data was served recently
+ */
+export function getTruckAccessHealth() {
+  const breaker = planetscaleBreaker.getStats();
+  const servingStale = lastStaleServedAt !== null && Date.now() - lastStaleServedAt < DEGRADED_WINDOW_MS;
+
+  return {
+    degraded: breaker.state !== 'closed' || servingStale,
+    planetscale_circuit: breaker,
+    last_stale_served_at: lastStaleServedAt ? new Date(lastStaleServedAt).toISOString() : null,
+  };
+}
+
+/**
+ * Fetch truck access grants (registration number and access level) for a
+ * user from PlanetScale with caching for improved performance
+ */
+export async function getTruckAccessDetails(userId: string): Promise<TruckAccess[]> {
+  return withSpan('truck_access.lookup', {}, async (span) => {
+    try {
+      // Try to get from cache first
+      const cachedData = await truckAccessCache.getJSON<any[]>(userId);
+      if (cachedData) {
+        span.setAttribute('truck_access.source', 'cache');
+        return withoutExpiredGrants(cachedData);
+      }
+    } catch (error) {
+      log.warn('Failed to check cache for truck access', { error });
+    }
+
+    span.setAttribute('truck_access.source', 'planetscale');
+    return truckAccessFlights.do(userId, () => fetchTruckAccessDetails(userId));
+  });
+}
+
+/**
+ * Fetch truck registration numbers for a user from PlanetScale
+ * with caching for improved performance
+ */
+export async function getTruckRegistrationNos(userId: string): Promise<string[]> {
+  const truckAccess = await getTruckAccessDetails(userId);
+  return [...new Set(truckAccess.map(access => access.truck_registration_no))].sort();
+}
+
+/**
+ * Invalidate cached truck access for a user, including the last known good
+ * copy so revoked access is not served from it during a PlanetScale outage
  * Call this when truck access is updated
  */
 export async function invalidateTruckAccessCache(userId: string): Promise<void> {
-  const cacheKey = `truck_access:${userId}`;
   try {
-    await dragonflyClient.deleteToken(cacheKey);
-    console.log(`Invalidated truck access cache for user ${userId}`);
+    await truckAccessCache.delete(userId);
+    await truckAccessStaleCache.delete(userId);
+    log.info('Invalidated truck access cache', { userId });
   } catch (error) {
-    console.error('Failed to invalidate truck access cache:', error);
+    log.error('Failed to invalidate truck access cache', { userId, error });
   }
-} 
\ No newline at end of file
+}
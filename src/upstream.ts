@@ -0,0 +1,191 @@
+import axios from 'axios';
+import { Readable } from 'node:stream';
+import type { ReadableStream as NodeReadableStream } from 'node:stream/web';
+import type { IncomingMessage } from 'node:http';
+import { Context } from 'hono';
+import { SpanKind } from '@opentelemetry/api';
+import { injectTraceHeaders, withSpan } from './tracing.js';
+import { logger } from './logger.js';
+
+const log = logger.child({ module: 'upstream' });
+
+/**
+ * Hop-by-hop headers are scoped to a single connection and must not be
+ * forwarded by a proxy (RFC 9110, section 7.6.1)
+ */
+const HOP_BY_HOP_HEADERS = new Set([
+  'connection',
+  'keep-alive',
+  'proxy-authenticate',
+  'proxy-authorization',
+  'proxy-connection',
+  'te',
+  'trailer',
+  'transfer-encoding',
+  'upgrade',
+]);
+
+// Client credentials are replaced by the Tinybird token and never leave the proxy
+const STRIPPED_REQUEST_HEADERS = new Set(['authorization', 'cookie', 'host']);
+
+const STRIPPED_RESPONSE_HEADERS = new Set(['set-cookie']);
+
+export interface UpstreamResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: ReadableStream | null;
+}
+
+/**
+ * Build the upstream URL by appending the request path and query string
+ * to the Tinybird API base URL
+ */
+export function buildUpstreamUrl(baseUrl: string, requestUrl: string): string {
+  const url = new URL(requestUrl);
+  return `${baseUrl.replace(/\/+$/, '')}${url.pathname}${url.search}`;
+}
+
+/**
+ * Copy client headers for the upstream request, swapping credentials
+ * for the Tinybird token and dropping hop-by-hop headers
+ */
+export function buildUpstreamRequestHeaders(c: Context, tinybirdToken: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+
+  Object.entries(c.req.header()).forEach(([key, value]) => {
+    const lowerKey = key.toLowerCase();
+    if (HOP_BY_HOP_HEADERS.has(lowerKey) || STRIPPED_REQUEST_HEADERS.has(lowerKey)) {
+      return;
+    }
+    if (typeof value === 'string') {
+      headers[lowerKey] = value;
+    }
+  });
+
+  headers['authorization'] = `Bearer ${tinybirdToken}`;
+
+  // Let Tinybird-side logs be correlated with ours
+  const requestId = c.get('requestId') as string | undefined;
+  if (requestId) {
+    headers['x-request-id'] = requestId;
+  }
+
+  // Continue the trace upstream from the active span
+  injectTraceHeaders(headers);
+  return headers;
+}
+
+/**
+ * Copy upstream response headers that are safe to return to the client
+ */
+function buildDownstreamHeaders(upstreamHeaders: IncomingMessage['headers']): Record<string, string> {
+  const headers: Record<string, string> = {};
+
+  Object.entries(upstreamHeaders).forEach(([key, value]) => {
+    const lowerKey = key.toLowerCase();
+    if (HOP_BY_HOP_HEADERS.has(lowerKey) || STRIPPED_RESPONSE_HEADERS.has(lowerKey)) {
+      return;
+    }
+    if (typeof value === 'string') {
+      headers[lowerKey] = value;
+    } else if (Array.isArray(value)) {
+      headers[lowerKey] = value.join(', ');
+    }
+  });
+
+  return headers;
+}
+
+function hasResponseBody(method: string, status: number): boolean {
+  return method !== 'HEAD' && status !== 204 && status !== 304;
+}
+
+/**
+ * Send a request to Tinybird and return the response body as a stream.
+ * The client span covers the time to the upstream response headers; the
+ * body is streamed after it ends.
+ */
+async function sendUpstreamRequest(
+  method: string,
+  targetUrl: string,
+  headers: Record<string, string>,
+  data: Readable | undefined,
+  timeoutMs: number
+): Promise<UpstreamResponse> {
+  const attributes = { 'http.request.method': method, 'server.address': new URL(targetUrl).host };
+
+  return withSpan(`tinybird ${method}`, attributes, async (span) => {
+    const response = await axios.request<IncomingMessage>({
+      method,
+      url: targetUrl,
+      headers,
+      data,
+      responseType: 'stream',
+      decompress: false, // Pass upstream content-encoding through untouched
+      maxRedirects: 0,
+      timeout: timeoutMs,
+      validateStatus: () => true, // Don't throw on HTTP error status codes
+    });
+
+    const upstream = response.data;
+    upstream.on('error', (error) => {
+      log.error('Upstream stream error', { method, url: targetUrl, error });
+    });
+
+    let body: ReadableStream | null = null;
+    if (hasResponseBody(method, response.status)) {
+      body = Readable.toWeb(upstream) as ReadableStream;
+    } else {
+      upstream.resume();
+    }
+
+    span.setAttribute('http.response.status_code', response.status);
+    return {
+      status: response.status,
+      headers: buildDownstreamHeaders(upstream.headers),
+      body,
+    };
+  }, SpanKind.CLIENT);
+}
+
+/**
+ * Forward the incoming request to Tinybird without buffering either body.
+ * The request body is piped upstream as-is and the upstream body is returned
+ * as a stream, so content type, encoding and bytes are preserved for every
+ * pipe output format (json, csv, ndjson, parquet, ...)
+ *
+ * `extraHeaders` override the copied ones.
+ */
+export async function forwardRequest(
+  c: Context,
+  targetUrl: string,
+  tinybirdToken: string,
+  timeoutMs: number = 30000,
+  extraHeaders: Record<string, string> = {}
+): Promise<UpstreamResponse> {
+  const method = c.req.method.toUpperCase();
+  const requestStream = method !== 'GET' && method !== 'HEAD' && c.req.raw.body
+    ? Readable.fromWeb(c.req.raw.body as NodeReadableStream)
+    : undefined;
+
+  const headers = { ...buildUpstreamRequestHeaders(c, tinybirdToken), ...extraHeaders };
+  return sendUpstreamRequest(method, targetUrl, headers, requestStream, timeoutMs);
+}
+
+/**
+ * GET a Tinybird URL on the proxy's own behalf (not for a client request),
+ * asking for an uncompressed body
+ */
+export async function fetchUpstream(
+  targetUrl: string,
+  tinybirdToken: string,
+  timeoutMs: number = 30000
+): Promise<UpstreamResponse> {
+  const headers: Record<string, string> = {
+    'authorization': `Bearer ${tinybirdToken}`,
+    'accept': 'application/json',
+    'accept-encoding': 'identity',
+  };
+  injectTraceHeaders(headers);
+  return sendUpstreamRequest('GET', targetUrl, headers, undefined, timeoutMs);
+}